@@ -1,15 +1,21 @@
-
-import React, { useEffect, useRef } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { Activity } from 'lucide-react';
+import type { AudioLevels } from '@/lib/audio/levelMeter';
 
 interface AudioVisualizerProps {
-  audioLevel: number;
+  getLevels: () => AudioLevels | null;
   isActive: boolean;
 }
 
-const AudioVisualizer = ({ audioLevel, isActive }: AudioVisualizerProps) => {
+// How long the clipping indicator stays lit after the last clipped frame
+const CLIP_HOLD_MS = 1000;
+
+const AudioVisualizer = ({ getLevels, isActive }: AudioVisualizerProps) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const animationRef = useRef<number>();
+  const lastClipRef = useRef(0);
+  const [isClipping, setIsClipping] = useState(false);
+  const [level, setLevel] = useState(0);
 
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -25,24 +31,53 @@ const AudioVisualizer = ({ audioLevel, isActive }: AudioVisualizerProps) => {
       // Clear canvas
       ctx.clearRect(0, 0, width, height);
 
-      if (isActive) {
-        // Draw waveform bars
+      const levels = isActive ? getLevels() : null;
+
+      if (levels) {
+        // Draw spectrum bars, averaging the frequency bins into each bar
         const barCount = 32;
         const barWidth = width / barCount;
+        const binsPerBar = Math.max(1, Math.floor(levels.frequencies.length / barCount));
 
         for (let i = 0; i < barCount; i++) {
-          const barHeight = Math.random() * height * 0.8 * (audioLevel * 0.01 + 0.1);
+          let sum = 0;
+          for (let j = 0; j < binsPerBar; j++) {
+            sum += levels.frequencies[i * binsPerBar + j] || 0;
+          }
+          const magnitude = sum / binsPerBar / 255;
+          const barHeight = Math.max(2, magnitude * height * 0.9);
           const x = i * barWidth;
           const y = (height - barHeight) / 2;
 
           // Gradient for bars
           const gradient = ctx.createLinearGradient(0, y, 0, y + barHeight);
-          gradient.addColorStop(0, '#3B82F6');
-          gradient.addColorStop(1, '#1D4ED8');
+          gradient.addColorStop(0, '#93C5FD');
+          gradient.addColorStop(1, '#60A5FA');
 
           ctx.fillStyle = gradient;
           ctx.fillRect(x + 1, y, barWidth - 2, barHeight);
         }
+
+        // Draw waveform on top of the spectrum
+        ctx.beginPath();
+        ctx.lineWidth = 1.5;
+        ctx.strokeStyle = '#1D4ED8';
+        const step = width / levels.waveform.length;
+        for (let i = 0; i < levels.waveform.length; i++) {
+          const x = i * step;
+          const y = (1 - levels.waveform[i]) * (height / 2);
+          if (i === 0) ctx.moveTo(x, y);
+          else ctx.lineTo(x, y);
+        }
+        ctx.stroke();
+
+        const now = performance.now();
+        if (levels.clipping) lastClipRef.current = now;
+        const clipping = now - lastClipRef.current < CLIP_HOLD_MS;
+        setIsClipping((prev) => (prev === clipping ? prev : clipping));
+        // Round to whole percent so the meter only re-renders on visible changes
+        const percent = Math.round(Math.min(1, levels.rms * 4) * 100);
+        setLevel((prev) => (prev === percent ? prev : percent));
       }
 
       if (isActive) {
@@ -57,7 +92,7 @@ const AudioVisualizer = ({ audioLevel, isActive }: AudioVisualizerProps) => {
         cancelAnimationFrame(animationRef.current);
       }
     };
-  }, [audioLevel, isActive]);
+  }, [getLevels, isActive]);
 
   return (
     <div className="bg-slate-50 rounded-lg p-4 border border-slate-200">
@@ -72,6 +107,13 @@ const AudioVisualizer = ({ audioLevel, isActive }: AudioVisualizerProps) => {
             <span className="text-xs text-red-600">LIVE</span>
           </div>
         )}
+        <span
+          className={`ml-auto text-xs font-semibold px-2 py-0.5 rounded ${
+            isClipping ? 'bg-red-600 text-white' : 'bg-slate-200 text-slate-400'
+          }`}
+        >
+          CLIP
+        </span>
       </div>
       <canvas
         ref={canvasRef}
@@ -79,6 +121,14 @@ const AudioVisualizer = ({ audioLevel, isActive }: AudioVisualizerProps) => {
         height={60}
         className="w-full h-16 bg-white rounded border border-slate-100"
       />
+      <div className="mt-2 h-1.5 bg-slate-200 rounded overflow-hidden">
+        <div
+          className={`h-full transition-[width] duration-75 ${
+            isClipping ? 'bg-red-500' : 'bg-green-500'
+          }`}
+          style={{ width: `${level}%` }}
+        />
+      </div>
     </div>
   );
 };
@@ -0,0 +1,81 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import {
+  CAPTURE_SOURCES,
+  type CaptureGains,
+  type CaptureInputKind,
+  type CaptureSource,
+} from "@/lib/audio/captureSource";
+
+interface CaptureSourceSelectorProps {
+  value: CaptureSource;
+  onChange: (value: CaptureSource) => void;
+  disabled?: boolean;
+}
+
+const CaptureSourceSelector = ({
+  value,
+  onChange,
+  disabled,
+}: CaptureSourceSelectorProps) => (
+  <Select
+    value={value}
+    onValueChange={(next) => onChange(next as CaptureSource)}
+    disabled={disabled}
+  >
+    <SelectTrigger className="w-44">
+      <SelectValue />
+    </SelectTrigger>
+    <SelectContent>
+      {CAPTURE_SOURCES.map((source) => (
+        <SelectItem key={source.id} value={source.id}>
+          {source.name}
+        </SelectItem>
+      ))}
+    </SelectContent>
+  </Select>
+);
+
+interface CaptureGainControlsProps {
+  gains: CaptureGains;
+  onChange: (gains: CaptureGains) => void;
+}
+
+const GAIN_LABELS: Record<CaptureInputKind, string> = {
+  microphone: "Mic",
+  tab: "Tab",
+};
+
+export const CaptureGainControls = ({
+  gains,
+  onChange,
+}: CaptureGainControlsProps) => (
+  <div className="grid grid-cols-2 gap-4 mb-6">
+    {(Object.keys(GAIN_LABELS) as CaptureInputKind[]).map((kind) => (
+      <div key={kind} className="flex items-center space-x-3">
+        <span className="text-xs font-medium text-slate-600 w-8">
+          {GAIN_LABELS[kind]}
+        </span>
+        <Slider
+          value={[gains[kind]]}
+          min={0}
+          max={2}
+          step={0.05}
+          onValueChange={([gain]) => onChange({ ...gains, [kind]: gain })}
+        />
+        <span className="text-xs text-slate-500 w-10 text-right">
+          {Math.round(gains[kind] * 100)}%
+        </span>
+      </div>
+    ))}
+  </div>
+);
+
+export default CaptureSourceSelector;
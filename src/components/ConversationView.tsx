@@ -0,0 +1,81 @@
+import React, { useEffect, useRef } from "react";
+import { Card } from "@/components/ui/card";
+import { getLanguageName } from "@/lib/languages";
+import type { ConversationTurn } from "@/lib/conversation";
+
+interface ConversationViewProps {
+  turns: ConversationTurn[];
+  // Not yet finalized speech, shown as the turn in progress
+  tentativeText?: string;
+  isListening: boolean;
+}
+
+const ConversationView = ({
+  turns,
+  tentativeText,
+  isListening,
+}: ConversationViewProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+
+  // Keep the latest turn in view
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [turns, tentativeText]);
+
+  return (
+    <Card className="p-4 bg-slate-50 border-slate-200">
+      <div ref={scrollRef} className="h-96 overflow-y-auto space-y-4 pr-1">
+        {turns.length === 0 && !tentativeText ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-slate-400 text-sm">
+              {isListening ? "Listening..." : "No conversation yet"}
+            </p>
+          </div>
+        ) : (
+          turns.map((turn) => (
+            <div
+              key={turn.id}
+              className={`flex ${
+                turn.speaker === "a" ? "justify-start" : "justify-end"
+              }`}
+            >
+              <div
+                className={`max-w-[80%] rounded-lg px-4 py-3 shadow-sm ${
+                  turn.speaker === "a"
+                    ? "bg-white border border-slate-200"
+                    : "bg-blue-50 border border-blue-200"
+                }`}
+              >
+                <p className="text-slate-800 leading-relaxed">
+                  {turn.translation === null ? (
+                    <span className="text-slate-400 italic">Translating...</span>
+                  ) : (
+                    turn.translation || (
+                      <span className="text-slate-400 italic">
+                        Translation failed
+                      </span>
+                    )
+                  )}
+                </p>
+                <p className="mt-2 text-xs text-slate-500">
+                  <span className="font-medium">
+                    {getLanguageName(turn.language)}:
+                  </span>{" "}
+                  {turn.text}
+                </p>
+              </div>
+            </div>
+          ))
+        )}
+        {tentativeText && (
+          <p className="text-center text-sm text-slate-400 italic">
+            {tentativeText}
+          </p>
+        )}
+      </div>
+    </Card>
+  );
+};
+
+export default ConversationView;
@@ -0,0 +1,213 @@
+import React, { useEffect, useRef } from "react";
+import { Button } from "@/components/ui/button";
+import { Loader2, Mic, MicOff, Settings, X } from "lucide-react";
+import LanguageSelector from "@/components/LanguageSelector";
+import type { ConversationTurn, Speaker } from "@/lib/conversation";
+
+interface FaceToFaceViewProps {
+  languageA: string;
+  languageB: string;
+  onLanguageAChange: (language: string) => void;
+  onLanguageBChange: (language: string) => void;
+  turns: ConversationTurn[];
+  // Participant whose tap-to-talk turn is being recorded
+  activeSpeaker: Speaker | null;
+  // Not yet finalized speech of the active participant
+  tentativeText: string;
+  isFinishing: boolean;
+  disabled: boolean;
+  onTalk: (speaker: Speaker) => void;
+  onOpenSettings: () => void;
+  onExit: () => void;
+  error?: string | null;
+}
+
+interface ConversationHalfProps {
+  speaker: Speaker;
+  language: string;
+  onLanguageChange: (language: string) => void;
+  turns: ConversationTurn[];
+  activeSpeaker: Speaker | null;
+  tentativeText: string;
+  isFinishing: boolean;
+  disabled: boolean;
+  onTalk: (speaker: Speaker) => void;
+  className?: string;
+}
+
+// The half of the screen facing one participant
+const ConversationHalf = ({
+  speaker,
+  language,
+  onLanguageChange,
+  turns,
+  activeSpeaker,
+  tentativeText,
+  isFinishing,
+  disabled,
+  onTalk,
+  className = "",
+}: ConversationHalfProps) => {
+  const scrollRef = useRef<HTMLDivElement>(null);
+  const isTalking = activeSpeaker === speaker;
+
+  // The other participant's turns, translated into this reader's language
+  const incoming = turns.filter((turn) => turn.speaker !== speaker);
+
+  useEffect(() => {
+    const container = scrollRef.current;
+    if (container) container.scrollTop = container.scrollHeight;
+  }, [turns]);
+
+  return (
+    <section className={`flex-1 min-h-0 flex flex-col p-4 ${className}`}>
+      <LanguageSelector
+        value={language}
+        onChange={onLanguageChange}
+        label="I speak"
+      />
+
+      <div
+        ref={scrollRef}
+        className="flex-1 min-h-0 overflow-y-auto my-3 space-y-2"
+      >
+        {incoming.length === 0 ? (
+          <div className="flex items-center justify-center h-full">
+            <p className="text-slate-400 text-sm">
+              Translations of the other person appear here
+            </p>
+          </div>
+        ) : (
+          incoming.map((turn, index) => (
+            <p
+              key={turn.id}
+              className={
+                index === incoming.length - 1
+                  ? "text-2xl font-medium text-slate-900 leading-snug"
+                  : "text-base text-slate-500"
+              }
+            >
+              {turn.translation === null ? (
+                <span className="text-slate-400 italic">Translating...</span>
+              ) : (
+                turn.translation || (
+                  <span className="text-slate-400 italic">
+                    Translation failed
+                  </span>
+                )
+              )}
+            </p>
+          ))
+        )}
+      </div>
+
+      {isTalking && (
+        <p className="mb-2 text-center text-sm text-slate-500 italic truncate">
+          {tentativeText || "Listening..."}
+        </p>
+      )}
+
+      <Button
+        onClick={() => onTalk(speaker)}
+        disabled={
+          disabled || isFinishing || (activeSpeaker !== null && !isTalking)
+        }
+        className={`h-20 w-full text-lg space-x-2 ${
+          isTalking
+            ? "bg-red-600 hover:bg-red-700"
+            : "bg-blue-600 hover:bg-blue-700"
+        }`}
+      >
+        {isTalking && isFinishing ? (
+          <>
+            <Loader2 className="w-6 h-6 animate-spin" />
+            <span>Finishing...</span>
+          </>
+        ) : isTalking ? (
+          <>
+            <MicOff className="w-6 h-6" />
+            <span>Tap to stop</span>
+          </>
+        ) : (
+          <>
+            <Mic className="w-6 h-6" />
+            <span>Tap to talk</span>
+          </>
+        )}
+      </Button>
+    </section>
+  );
+};
+
+// Full-screen layout for a phone lying on a table between two people. The
+// top half is turned around for the person sitting opposite.
+const FaceToFaceView = ({
+  languageA,
+  languageB,
+  onLanguageAChange,
+  onLanguageBChange,
+  turns,
+  activeSpeaker,
+  tentativeText,
+  isFinishing,
+  disabled,
+  onTalk,
+  onOpenSettings,
+  onExit,
+  error,
+}: FaceToFaceViewProps) => {
+  const shared = {
+    turns,
+    activeSpeaker,
+    tentativeText,
+    isFinishing,
+    disabled,
+    onTalk,
+  };
+
+  return (
+    <div className="fixed inset-0 z-40 flex flex-col bg-slate-50">
+      <ConversationHalf
+        {...shared}
+        speaker="b"
+        language={languageB}
+        onLanguageChange={onLanguageBChange}
+        className="rotate-180"
+      />
+
+      <div className="flex items-center justify-between gap-2 px-4 py-2 bg-white border-y border-slate-200">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onExit}
+          disabled={activeSpeaker !== null}
+          title="Leave conversation"
+        >
+          <X className="w-4 h-4" />
+        </Button>
+        <p className="flex-1 text-center text-xs text-red-600 truncate">
+          {error}
+        </p>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onOpenSettings}
+          title="Settings"
+        >
+          <Settings className="w-4 h-4" />
+        </Button>
+      </div>
+
+      <ConversationHalf
+        {...shared}
+        speaker="a"
+        language={languageA}
+        onLanguageChange={onLanguageAChange}
+      />
+    </div>
+  );
+};
+
+export default FaceToFaceView;
@@ -0,0 +1,295 @@
+import React, { useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Download, Plus, Trash2, Upload, X } from "lucide-react";
+import LanguageSelector from "@/components/LanguageSelector";
+import { LANGUAGES } from "@/lib/languages";
+import {
+  createGlossaryEntry,
+  mergeGlossaryEntries,
+  parseGlossaryCsv,
+  parseGlossaryTbx,
+  serializeGlossaryCsv,
+  serializeGlossaryTbx,
+  type Glossary,
+  type GlossaryEntry,
+} from "@/lib/glossary";
+
+interface GlossarySettingsProps {
+  glossary: Glossary;
+  onChange: (glossary: Glossary) => void;
+}
+
+const downloadFile = (content: string, filename: string, type: string) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const GlossarySettings = ({ glossary, onChange }: GlossarySettingsProps) => {
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const [importMessage, setImportMessage] = useState<{
+    text: string;
+    isError: boolean;
+  } | null>(null);
+
+  const updateEntries = (entries: GlossaryEntry[]) =>
+    onChange({ ...glossary, entries });
+
+  const updateEntry = (id: string, changes: Partial<GlossaryEntry>) =>
+    updateEntries(
+      glossary.entries.map((entry) =>
+        entry.id === id ? { ...entry, ...changes } : entry
+      )
+    );
+
+  const addTranslation = (entry: GlossaryEntry) => {
+    const language = LANGUAGES.find(
+      ({ code }) =>
+        code !== glossary.sourceLanguage && !(code in entry.translations)
+    );
+    if (!language) return;
+    updateEntry(entry.id, {
+      translations: { ...entry.translations, [language.code]: "" },
+    });
+  };
+
+  // Rebuilt rather than spread so a renamed language keeps its position
+  const renameTranslation = (entry: GlossaryEntry, from: string, to: string) =>
+    updateEntry(entry.id, {
+      translations: Object.fromEntries(
+        Object.entries(entry.translations).map(([language, text]) => [
+          language === from ? to : language,
+          text,
+        ])
+      ),
+    });
+
+  const removeTranslation = (entry: GlossaryEntry, language: string) =>
+    updateEntry(entry.id, {
+      translations: Object.fromEntries(
+        Object.entries(entry.translations).filter(([code]) => code !== language)
+      ),
+    });
+
+  const handleImport = async (file: File) => {
+    try {
+      const text = await file.text();
+      const isCsv = file.name.toLowerCase().endsWith(".csv");
+      const imported = isCsv
+        ? { sourceLanguage: glossary.sourceLanguage, entries: parseGlossaryCsv(text) }
+        : parseGlossaryTbx(text, glossary.sourceLanguage);
+
+      onChange({
+        // An empty glossary takes over the language of the imported terms
+        sourceLanguage:
+          glossary.entries.length === 0
+            ? imported.sourceLanguage
+            : glossary.sourceLanguage,
+        entries: mergeGlossaryEntries(glossary.entries, imported.entries),
+      });
+      setImportMessage({
+        text: `Imported ${imported.entries.length} terms from ${file.name}`,
+        isError: false,
+      });
+    } catch (err) {
+      setImportMessage({
+        text: err instanceof Error ? err.message : "Import failed",
+        isError: true,
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <LanguageSelector
+          value={glossary.sourceLanguage}
+          onChange={(sourceLanguage) => onChange({ ...glossary, sourceLanguage })}
+          label="Terms in"
+        />
+        <div className="flex items-center gap-1">
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".csv,.tbx,.xml"
+            className="hidden"
+            onChange={(e) => {
+              const file = e.target.files?.[0];
+              if (file) handleImport(file);
+              // Allow importing the same file again
+              e.target.value = "";
+            }}
+          />
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() => fileInputRef.current?.click()}
+          >
+            <Upload className="w-4 h-4 mr-1" />
+            Import
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              downloadFile(serializeGlossaryCsv(glossary), "glossary.csv", "text/csv")
+            }
+            disabled={glossary.entries.length === 0}
+          >
+            <Download className="w-4 h-4 mr-1" />
+            CSV
+          </Button>
+          <Button
+            type="button"
+            variant="outline"
+            size="sm"
+            onClick={() =>
+              downloadFile(
+                serializeGlossaryTbx(glossary),
+                "glossary.tbx",
+                "application/x-tbx+xml"
+              )
+            }
+            disabled={glossary.entries.length === 0}
+          >
+            <Download className="w-4 h-4 mr-1" />
+            TBX
+          </Button>
+        </div>
+      </div>
+
+      {importMessage && (
+        <p
+          className={`text-xs ${
+            importMessage.isError ? "text-red-600" : "text-slate-600"
+          }`}
+        >
+          {importMessage.text}
+        </p>
+      )}
+
+      <div className="max-h-80 overflow-y-auto space-y-3 pr-1">
+        {glossary.entries.map((entry) => (
+          <div
+            key={entry.id}
+            className="p-3 space-y-2 border border-slate-200 rounded-lg"
+          >
+            <div className="flex items-center gap-2">
+              <Input
+                value={entry.term}
+                onChange={(e) => updateEntry(entry.id, { term: e.target.value })}
+                placeholder="Term"
+              />
+              <Input
+                value={entry.pronunciations.join(", ")}
+                onChange={(e) =>
+                  updateEntry(entry.id, {
+                    pronunciations: e.target.value.split(/\s*,\s*/),
+                  })
+                }
+                placeholder="Sounds like (comma separated)"
+              />
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-9 w-9 p-0 shrink-0"
+                onClick={() =>
+                  updateEntries(
+                    glossary.entries.filter((item) => item.id !== entry.id)
+                  )
+                }
+                title="Delete term"
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            </div>
+            {Object.entries(entry.translations).map(([language, text]) => (
+              <div key={language} className="flex items-center gap-2">
+                <Select
+                  value={language}
+                  onValueChange={(code) =>
+                    renameTranslation(entry, language, code)
+                  }
+                >
+                  <SelectTrigger className="w-40 shrink-0">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent className="max-h-60">
+                    {LANGUAGES.filter(
+                      ({ code }) =>
+                        code === language || !(code in entry.translations)
+                    ).map(({ code, name }) => (
+                      <SelectItem key={code} value={code}>
+                        {name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  value={text}
+                  onChange={(e) =>
+                    updateEntry(entry.id, {
+                      translations: {
+                        ...entry.translations,
+                        [language]: e.target.value,
+                      },
+                    })
+                  }
+                  placeholder="Fixed translation"
+                />
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-9 w-9 p-0 shrink-0"
+                  onClick={() => removeTranslation(entry, language)}
+                  title="Remove translation"
+                >
+                  <X className="w-4 h-4" />
+                </Button>
+              </div>
+            ))}
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              className="h-8 px-2 text-slate-600"
+              onClick={() => addTranslation(entry)}
+            >
+              <Plus className="w-4 h-4 mr-1" />
+              Fixed translation
+            </Button>
+          </div>
+        ))}
+      </div>
+
+      <Button
+        type="button"
+        variant="outline"
+        size="sm"
+        onClick={() =>
+          updateEntries([...glossary.entries, createGlossaryEntry()])
+        }
+      >
+        <Plus className="w-4 h-4 mr-1" />
+        Add term
+      </Button>
+    </div>
+  );
+};
+
+export default GlossarySettings;
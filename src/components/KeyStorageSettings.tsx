@@ -0,0 +1,135 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import KeyVaultUnlock from "@/components/KeyVaultUnlock";
+import {
+  SECRET_STORAGE_OPTIONS,
+  forgetSecrets,
+  type SecretStorage,
+} from "@/lib/secrets";
+
+interface KeyStorageSettingsProps {
+  // Storage the keys are in now, and the one chosen in the form
+  currentStorage: SecretStorage;
+  value: SecretStorage;
+  onChange: (storage: SecretStorage) => void;
+  isLocked: boolean;
+  passphrase: string;
+  onPassphraseChange: (passphrase: string) => void;
+  passphraseConfirmation: string;
+  onPassphraseConfirmationChange: (passphrase: string) => void;
+  error: string | null;
+}
+
+const KeyStorageSettings = ({
+  currentStorage,
+  value,
+  onChange,
+  isLocked,
+  passphrase,
+  onPassphraseChange,
+  passphraseConfirmation,
+  onPassphraseConfirmationChange,
+  error,
+}: KeyStorageSettingsProps) => {
+  if (isLocked) {
+    return (
+      <div className="space-y-3">
+        <p className="text-xs text-slate-600">
+          The API keys are encrypted. Enter the passphrase to view or change
+          them.
+        </p>
+        <KeyVaultUnlock />
+        <Button
+          variant="ghost"
+          size="sm"
+          className="text-red-600"
+          onClick={() => {
+            if (
+              window.confirm(
+                "Delete the encrypted API keys? They have to be entered again."
+              )
+            ) {
+              forgetSecrets();
+            }
+          }}
+        >
+          Forgot the passphrase? Delete the keys
+        </Button>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="key-storage" className="text-sm font-medium">
+          Store API keys
+        </Label>
+        <Select
+          value={value}
+          onValueChange={(storage) => onChange(storage as SecretStorage)}
+        >
+          <SelectTrigger id="key-storage">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {SECRET_STORAGE_OPTIONS.map((option) => (
+              <SelectItem key={option.id} value={option.id}>
+                {option.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <p className="text-xs text-slate-600">
+          {SECRET_STORAGE_OPTIONS.find((option) => option.id === value)?.description}
+        </p>
+      </div>
+
+      {value === "vault" && (
+        <div className="space-y-2">
+          <Label htmlFor="vault-passphrase" className="text-sm font-medium">
+            {currentStorage === "vault" ? "New passphrase" : "Passphrase"}
+          </Label>
+          {currentStorage === "vault" && (
+            <p className="text-xs text-slate-600">
+              Leave empty to keep the current passphrase.
+            </p>
+          )}
+          <Input
+            id="vault-passphrase"
+            type="password"
+            value={passphrase}
+            onChange={(event) => onPassphraseChange(event.target.value)}
+            placeholder="At least 8 characters"
+            autoComplete="new-password"
+          />
+          <Input
+            type="password"
+            value={passphraseConfirmation}
+            onChange={(event) =>
+              onPassphraseConfirmationChange(event.target.value)
+            }
+            placeholder="Repeat the passphrase"
+            autoComplete="new-password"
+          />
+          <p className="text-xs text-amber-700">
+            The keys cannot be recovered without the passphrase.
+          </p>
+        </div>
+      )}
+
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </div>
+  );
+};
+
+export default KeyStorageSettings;
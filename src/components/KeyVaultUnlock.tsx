@@ -0,0 +1,51 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Loader2, LockOpen } from "lucide-react";
+import { unlockVault } from "@/lib/secrets";
+
+// Passphrase prompt for the encrypted API key vault
+const KeyVaultUnlock = () => {
+  const [passphrase, setPassphrase] = useState("");
+  const [isUnlocking, setIsUnlocking] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSubmit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setIsUnlocking(true);
+    setError(null);
+    try {
+      await unlockVault(passphrase);
+      setPassphrase("");
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Unlock failed");
+    } finally {
+      setIsUnlocking(false);
+    }
+  };
+
+  return (
+    <form onSubmit={handleSubmit} className="space-y-2">
+      <div className="flex items-center space-x-2">
+        <Input
+          type="password"
+          value={passphrase}
+          onChange={(event) => setPassphrase(event.target.value)}
+          placeholder="Passphrase"
+          autoComplete="current-password"
+        />
+        <Button type="submit" disabled={!passphrase || isUnlocking}>
+          {isUnlocking ? (
+            <Loader2 className="w-4 h-4 animate-spin" />
+          ) : (
+            <LockOpen className="w-4 h-4" />
+          )}
+          <span>Unlock</span>
+        </Button>
+      </div>
+      {error && <p className="text-sm text-red-700">{error}</p>}
+    </form>
+  );
+};
+
+export default KeyVaultUnlock;
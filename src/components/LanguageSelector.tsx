@@ -6,6 +6,7 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import { LANGUAGES } from "@/lib/languages";
 
 interface LanguageSelectorProps {
   value: string;
@@ -14,40 +15,6 @@ interface LanguageSelectorProps {
   allowAutoDetect?: boolean; // New prop
 }
 
-const LANGUAGES = [
-  // Removed 'auto' from here as it will be conditionally added
-  { code: "en", name: "English" },
-  { code: "es", name: "Spanish" },
-  { code: "fr", name: "French" },
-  { code: "de", name: "German" },
-  { code: "it", name: "Italian" },
-  { code: "pt", name: "Portuguese" },
-  { code: "ru", name: "Russian" },
-  { code: "ja", name: "Japanese" },
-  { code: "ko", name: "Korean" },
-  { code: "zh", name: "Chinese (Simplified)" },
-  { code: "ar", name: "Arabic" },
-  { code: "hi", name: "Hindi" },
-  { code: "nl", name: "Dutch" },
-  { code: "pl", name: "Polish" },
-  { code: "tr", name: "Turkish" },
-  { code: "sv", name: "Swedish" },
-  { code: "da", name: "Danish" },
-  { code: "no", name: "Norwegian" },
-  { code: "fi", name: "Finnish" },
-  { code: "cs", name: "Czech" },
-  { code: "hu", name: "Hungarian" },
-  { code: "ro", name: "Romanian" },
-  { code: "uk", name: "Ukrainian" },
-  { code: "bg", name: "Bulgarian" },
-  { code: "hr", name: "Croatian" },
-  { code: "sk", name: "Slovak" },
-  { code: "sl", name: "Slovenian" },
-  { code: "et", name: "Estonian" },
-  { code: "lv", name: "Latvian" },
-  { code: "lt", name: "Lithuanian" },
-];
-
 const LanguageSelector = ({
   value,
   onChange,
@@ -0,0 +1,202 @@
+import React, { useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { ChevronLeft, ChevronRight, Loader2, NotebookPen } from "lucide-react";
+import { getLanguageName } from "@/lib/languages";
+import {
+  SUMMARY_INTERVALS,
+  type MeetingNotes,
+  type MeetingSummary,
+} from "@/lib/summary";
+
+interface MeetingSummaryPanelProps {
+  summary: MeetingSummary | null;
+  isSummarizing: boolean;
+  error: string | null;
+  // Whether an LLM is configured to write the summary
+  isAvailable: boolean;
+  interval: number;
+  onIntervalChange: (interval: number) => void;
+  isOpen: boolean;
+  onOpenChange: (isOpen: boolean) => void;
+}
+
+const NotesView = ({ notes }: { notes: MeetingNotes }) => (
+  <div className="space-y-4 text-sm">
+    <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">
+      {notes.summary || <span className="text-slate-400">No summary yet</span>}
+    </p>
+
+    <div>
+      <h4 className="font-medium text-slate-700 mb-1">Action items</h4>
+      {notes.actionItems.length > 0 ? (
+        <ul className="list-disc pl-5 space-y-1 text-slate-700">
+          {notes.actionItems.map((item, index) => (
+            <li key={index}>
+              {item.task}
+              {item.owner && (
+                <span className="ml-1 text-xs text-slate-500 bg-slate-100 px-1.5 py-0.5 rounded">
+                  {item.owner}
+                </span>
+              )}
+            </li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-400">None</p>
+      )}
+    </div>
+
+    <div>
+      <h4 className="font-medium text-slate-700 mb-1">Decisions</h4>
+      {notes.decisions.length > 0 ? (
+        <ul className="list-disc pl-5 space-y-1 text-slate-700">
+          {notes.decisions.map((decision, index) => (
+            <li key={index}>{decision}</li>
+          ))}
+        </ul>
+      ) : (
+        <p className="text-slate-400">None</p>
+      )}
+    </div>
+  </div>
+);
+
+const MeetingSummaryPanel = ({
+  summary,
+  isSummarizing,
+  error,
+  isAvailable,
+  interval,
+  onIntervalChange,
+  isOpen,
+  onOpenChange,
+}: MeetingSummaryPanelProps) => {
+  const [language, setLanguage] = useState<"source" | "target">("source");
+
+  if (!isOpen) {
+    return (
+      <Card className="p-2 self-start">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-9 w-9 p-0"
+          onClick={() => onOpenChange(true)}
+          title="Show meeting summary"
+        >
+          <ChevronLeft className="w-4 h-4" />
+        </Button>
+      </Card>
+    );
+  }
+
+  return (
+    <Card className="p-6 w-full xl:w-96 shrink-0 self-start">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center text-lg font-semibold text-slate-900">
+          <NotebookPen className="w-5 h-5 mr-2 text-blue-600" />
+          Meeting Summary
+        </h2>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={() => onOpenChange(false)}
+          title="Hide meeting summary"
+        >
+          <ChevronRight className="w-4 h-4" />
+        </Button>
+      </div>
+
+      {!isAvailable ? (
+        <p className="text-sm text-slate-500">
+          Configure an LLM in the settings to summarize the meeting while it
+          is transcribed.
+        </p>
+      ) : (
+        <>
+          <div className="flex items-center justify-between gap-2 mb-4">
+            <span className="text-sm text-slate-600">Update every</span>
+            <Select
+              value={String(interval)}
+              onValueChange={(value) => onIntervalChange(Number(value))}
+            >
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SUMMARY_INTERVALS.map((count) => (
+                  <SelectItem key={count} value={String(count)}>
+                    {count} segments
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          {summary && (
+            <Tabs
+              value={language}
+              onValueChange={(value) => setLanguage(value as "source" | "target")}
+              className="mb-4"
+            >
+              <TabsList className="w-full">
+                <TabsTrigger value="source" className="flex-1">
+                  {summary.sourceLanguage == "Auto-Detect"
+                    ? "Original"
+                    : getLanguageName(summary.sourceLanguage)}
+                </TabsTrigger>
+                <TabsTrigger value="target" className="flex-1">
+                  {getLanguageName(summary.targetLanguage)}
+                </TabsTrigger>
+              </TabsList>
+            </Tabs>
+          )}
+
+          {summary ? (
+            <NotesView notes={summary[language]} />
+          ) : (
+            !isSummarizing && (
+              <p className="text-sm text-slate-400">
+                The summary appears after the first {interval} segments.
+              </p>
+            )
+          )}
+
+          <div className="mt-4 flex items-center space-x-2 text-xs text-slate-500">
+            {isSummarizing ? (
+              <>
+                <Loader2 className="w-3 h-3 animate-spin" />
+                <span>Updating summary...</span>
+              </>
+            ) : (
+              summary && (
+                <span>
+                  {summary.isFinal
+                    ? "Final summary, saved with the transcript"
+                    : `Covers the first ${summary.segmentCount} segments`}
+                </span>
+              )
+            )}
+          </div>
+
+          {error && (
+            <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+              <p className="text-sm text-red-700">{error}</p>
+            </div>
+          )}
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default MeetingSummaryPanel;
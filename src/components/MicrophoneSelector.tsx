@@ -0,0 +1,60 @@
+import React from "react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+
+interface MicrophoneSelectorProps {
+  devices: MediaDeviceInfo[];
+  // Empty string selects the system default input
+  value: string;
+  onChange: (deviceId: string) => void;
+  label?: string;
+  className?: string;
+}
+
+// Radix Select does not accept empty values, so the default input gets a sentinel
+const DEFAULT_DEVICE_VALUE = "__default__";
+
+const MicrophoneSelector = ({
+  devices,
+  value,
+  onChange,
+  label,
+  className = "w-48",
+}: MicrophoneSelectorProps) => {
+  // A remembered device that is currently unplugged falls back to the default
+  const isAvailable = devices.some((device) => device.deviceId === value);
+  const selectValue = value && isAvailable ? value : DEFAULT_DEVICE_VALUE;
+
+  return (
+    <div className="flex items-center space-x-2">
+      {label && (
+        <span className="text-sm font-medium text-slate-600">{label}:</span>
+      )}
+      <Select
+        value={selectValue}
+        onValueChange={(next) =>
+          onChange(next === DEFAULT_DEVICE_VALUE ? "" : next)
+        }
+      >
+        <SelectTrigger className={className}>
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent className="max-h-60">
+          <SelectItem value={DEFAULT_DEVICE_VALUE}>System default</SelectItem>
+          {devices.map((device, index) => (
+            <SelectItem key={device.deviceId} value={device.deviceId}>
+              {device.label || `Microphone ${index + 1}`}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    </div>
+  );
+};
+
+export default MicrophoneSelector;
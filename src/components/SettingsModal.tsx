@@ -7,20 +7,94 @@ import { Label } from '@/components/ui/label';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Card } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
+import { Switch } from '@/components/ui/switch';
+import MicrophoneSelector from '@/components/MicrophoneSelector';
+import VoiceMappingSettings from '@/components/VoiceMappingSettings';
+import TtsProfileSettings from '@/components/TtsProfileSettings';
+import GlossarySettings from '@/components/GlossarySettings';
+import KeyStorageSettings from '@/components/KeyStorageSettings';
+import { useElevenLabsVoices } from '@/hooks/useElevenLabsVoices';
+import { useTextToSpeech } from '@/hooks/useTextToSpeech';
+import { useKeyVault } from '@/hooks/useKeyVault';
 import { Eye, EyeOff } from 'lucide-react';
+import { STT_PROVIDERS, DEFAULT_STT_PROVIDER_ID, getSttProvider, getSttLimitations } from '@/lib/stt';
+import { TTS_PROVIDERS, DEFAULT_TTS_PROVIDER_ID } from '@/lib/tts';
+import {
+  TRANSLATION_PROVIDERS,
+  DEFAULT_TRANSLATION_PROVIDER_ID,
+  getSelectedTranslationProviderId,
+} from '@/lib/translation';
+import {
+  DEFAULT_AUDIO_INPUT_SETTINGS,
+  loadAudioInputSettings,
+  saveAudioInputSettings,
+  type AudioInputSettings,
+} from '@/lib/audio/inputSettings';
+import {
+  getSampleSentence,
+  loadVoiceMapping,
+  saveVoiceMapping,
+  type VoiceMapping,
+} from '@/lib/tts/voices';
+import {
+  getActiveTtsProfile,
+  loadTtsProfileSettings,
+  saveTtsProfileSettings,
+  type TtsProfileSettings as TtsProfileSettingsValue,
+} from '@/lib/tts/profiles';
+import { EMPTY_GLOSSARY, loadGlossary, saveGlossary, type Glossary } from '@/lib/glossary';
+import {
+  LLM_PROVIDERS,
+  getLlmProvider,
+  loadLlmSettings,
+  saveLlmSettings,
+  type LlmProviderId,
+  type LlmSettings,
+} from '@/lib/llm';
+import {
+  getSecret,
+  getSecretStorage,
+  saveSecrets,
+  setSecretStorage,
+  type SecretStorage,
+} from '@/lib/secrets';
 
 interface SettingsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  inputDevices: MediaDeviceInfo[];
 }
 
-const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
+const AUDIO_PROCESSING_OPTIONS: {
+  key: 'echoCancellation' | 'noiseSuppression' | 'autoGainControl';
+  label: string;
+}[] = [
+  { key: 'echoCancellation', label: 'Echo cancellation' },
+  { key: 'noiseSuppression', label: 'Noise suppression' },
+  { key: 'autoGainControl', label: 'Automatic gain control' },
+];
+
+const FRAME_DURATIONS_MS = [20, 40, 50, 60, 80, 100];
+
+const SettingsModal = ({ isOpen, onClose, inputDevices }: SettingsModalProps) => {
+  const [sttProvider, setSttProvider] = useState(DEFAULT_STT_PROVIDER_ID);
+  const [audioInput, setAudioInput] = useState<AudioInputSettings>(DEFAULT_AUDIO_INPUT_SETTINGS);
+  const [translationProvider, setTranslationProvider] = useState<string>(DEFAULT_TRANSLATION_PROVIDER_ID);
   const [gladiaKey, setGladiaKey] = useState('');
   const [azureKey, setAzureKey] = useState('');
   const [azureRegion, setAzureRegion] = useState('');
+  const [ttsProvider, setTtsProvider] = useState(DEFAULT_TTS_PROVIDER_ID);
   const [elevenlabsKey, setElevenlabsKey] = useState('');
-  const [llmProvider, setLlmProvider] = useState('openai');
-  const [llmKey, setLlmKey] = useState('');
+  const [elevenlabsStreaming, setElevenlabsStreaming] = useState(false);
+  const [voiceMapping, setVoiceMapping] = useState<VoiceMapping>({});
+  const [previewLanguage, setPreviewLanguage] = useState<string | null>(null);
+  const [ttsProfiles, setTtsProfiles] = useState<TtsProfileSettingsValue>(loadTtsProfileSettings);
+  const [glossary, setGlossary] = useState<Glossary>(EMPTY_GLOSSARY);
+  const [llmSettings, setLlmSettings] = useState<LlmSettings>(loadLlmSettings);
+  const [keyStorage, setKeyStorage] = useState<SecretStorage>(getSecretStorage);
+  const [passphrase, setPassphrase] = useState('');
+  const [passphraseConfirmation, setPassphraseConfirmation] = useState('');
+  const [keyStorageError, setKeyStorageError] = useState<string | null>(null);
   const [showKeys, setShowKeys] = useState({
     gladia: false,
     azure: false,
@@ -28,30 +102,106 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
     llm: false,
   });
 
+  const {
+    voices,
+    isLoading: isLoadingVoices,
+    error: voicesError,
+    refresh: refreshVoices,
+  } = useElevenLabsVoices();
+  const { speak, error: previewError } = useTextToSpeech();
+  const { storage: currentKeyStorage, isLocked: areKeysLocked } = useKeyVault();
+
   useEffect(() => {
     if (isOpen) {
-      // Load saved API keys
-      setGladiaKey(localStorage.getItem('gladia_api_key') || '');
-      setAzureKey(localStorage.getItem('azure_api_key') || '');
+      setSttProvider(localStorage.getItem('stt_provider') || DEFAULT_STT_PROVIDER_ID);
+      setTranslationProvider(getSelectedTranslationProviderId());
+      setAudioInput(loadAudioInputSettings());
+      setKeyStorage(getSecretStorage());
+      setPassphrase('');
+      setPassphraseConfirmation('');
+      setKeyStorageError(null);
       setAzureRegion(localStorage.getItem('azure_region') || 'eastus');
-      setElevenlabsKey(localStorage.getItem('elevenlabs_api_key') || '');
-      setLlmProvider(localStorage.getItem('llm_provider') || 'openai');
-      setLlmKey(localStorage.getItem('llm_api_key') || '');
+      setTtsProvider(localStorage.getItem('tts_provider') || DEFAULT_TTS_PROVIDER_ID);
+      setElevenlabsStreaming(localStorage.getItem('elevenlabs_streaming') === 'true');
+      setVoiceMapping(loadVoiceMapping());
+      setTtsProfiles(loadTtsProfileSettings());
+      setGlossary(loadGlossary());
+      setLlmSettings(loadLlmSettings());
     }
   }, [isOpen]);
 
-  const handleSave = () => {
-    // Save API keys to localStorage
-    localStorage.setItem('gladia_api_key', gladiaKey);
-    localStorage.setItem('azure_api_key', azureKey);
+  // Load saved API keys, once the vault is unlocked if they are encrypted
+  useEffect(() => {
+    if (isOpen && !areKeysLocked) {
+      setGladiaKey(getSecret('gladia_api_key'));
+      setAzureKey(getSecret('azure_api_key'));
+      setElevenlabsKey(getSecret('elevenlabs_api_key'));
+      setLlmSettings(prev => ({ ...prev, apiKey: getSecret('llm_api_key') }));
+      refreshVoices(getSecret('elevenlabs_api_key'));
+    }
+  }, [isOpen, areKeysLocked, refreshVoices]);
+
+  // Move the keys to the chosen storage, then save them there
+  const saveKeys = async () => {
+    // Keys cannot be read or changed until the vault is unlocked
+    if (areKeysLocked) return;
+    if (keyStorage !== currentKeyStorage || passphrase) {
+      if (keyStorage === 'vault' && passphrase !== passphraseConfirmation) {
+        throw new Error('The passphrases do not match');
+      }
+      await setSecretStorage(
+        keyStorage,
+        keyStorage === 'vault' && passphrase ? passphrase : undefined
+      );
+    }
+    await saveSecrets({
+      gladia_api_key: gladiaKey,
+      azure_api_key: azureKey,
+      elevenlabs_api_key: elevenlabsKey,
+      llm_api_key: llmSettings.apiKey,
+    });
+  };
+
+  const handleSave = async () => {
+    try {
+      await saveKeys();
+    } catch (err) {
+      setKeyStorageError(err instanceof Error ? err.message : 'Saving the API keys failed');
+      return;
+    }
+    localStorage.setItem('stt_provider', sttProvider);
+    localStorage.setItem('translation_provider', translationProvider);
+    saveAudioInputSettings(audioInput);
     localStorage.setItem('azure_region', azureRegion);
-    localStorage.setItem('elevenlabs_api_key', elevenlabsKey);
-    localStorage.setItem('llm_provider', llmProvider);
-    localStorage.setItem('llm_api_key', llmKey);
+    localStorage.setItem('tts_provider', ttsProvider);
+    localStorage.setItem('elevenlabs_streaming', String(elevenlabsStreaming));
+    saveVoiceMapping(voiceMapping);
+    saveTtsProfileSettings(ttsProfiles);
+    saveGlossary(glossary);
+    saveLlmSettings(llmSettings);
     
     onClose();
   };
 
+  const previewVoice = (language: string, voiceId: string) => {
+    setPreviewLanguage(language);
+    // Preview with the key being edited so voices can be tried before saving
+    speak(getSampleSentence(language), language, {
+      providerId: 'elevenlabs',
+      voiceId,
+      apiKey: elevenlabsKey,
+      profile: getActiveTtsProfile(ttsProfiles),
+    })
+      .catch(() => {})
+      .finally(() => setPreviewLanguage(null));
+  };
+
+  const updateLlmSettings = (changes: Partial<LlmSettings>) => {
+    setLlmSettings(prev => ({ ...prev, ...changes }));
+  };
+
+  const llmProvider = getLlmProvider(llmSettings.providerId);
+
   const toggleKeyVisibility = (key: keyof typeof showKeys) => {
     setShowKeys(prev => ({ ...prev, [key]: !prev[key] }));
   };
@@ -79,6 +229,7 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
           onChange={(e) => onChange(e.target.value)}
           placeholder={placeholder}
           className="pr-10"
+          disabled={areKeysLocked}
         />
         <Button
           type="button"
@@ -105,6 +256,118 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
         </DialogHeader>
 
         <div className="space-y-6">
+          {/* Audio Input */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">
+              Audio Input
+            </h3>
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label className="text-sm font-medium">Microphone</Label>
+                <MicrophoneSelector
+                  devices={inputDevices}
+                  value={audioInput.deviceId}
+                  onChange={(deviceId) => setAudioInput(prev => ({ ...prev, deviceId }))}
+                  className="w-full"
+                />
+              </div>
+              {AUDIO_PROCESSING_OPTIONS.map(({ key, label }) => (
+                <div key={key} className="flex items-center justify-between">
+                  <Label htmlFor={key} className="text-sm font-medium">
+                    {label}
+                  </Label>
+                  <Switch
+                    id={key}
+                    checked={audioInput[key]}
+                    onCheckedChange={(checked) => setAudioInput(prev => ({ ...prev, [key]: checked }))}
+                  />
+                </div>
+              ))}
+              <div className="space-y-2">
+                <Label htmlFor="frame-duration" className="text-sm font-medium">
+                  Audio frame size
+                </Label>
+                <Select
+                  value={String(audioInput.frameDurationMs)}
+                  onValueChange={(value) => setAudioInput(prev => ({ ...prev, frameDurationMs: Number(value) }))}
+                >
+                  <SelectTrigger id="frame-duration">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {FRAME_DURATIONS_MS.map((ms) => (
+                      <SelectItem key={ms} value={String(ms)}>
+                        {ms} ms
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <p className="text-xs text-slate-600">
+                  Smaller frames lower latency, larger frames reduce network overhead. Applies to the next recording.
+                </p>
+              </div>
+              <p className="text-xs text-slate-600">
+                Device and processing changes apply immediately, even during a recording. Turn processing off for headsets and conference microphones that already clean up the signal.
+              </p>
+            </div>
+          </Card>
+
+          <Separator />
+
+          {/* Speech-to-Text Engine */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">
+              Speech-to-Text Engine
+            </h3>
+            <div className="space-y-2">
+              <Label htmlFor="stt-provider" className="text-sm font-medium">
+                Engine
+              </Label>
+              <Select value={sttProvider} onValueChange={setSttProvider}>
+                <SelectTrigger id="stt-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STT_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-600">
+                {STT_PROVIDERS.find((provider) => provider.id === sttProvider)?.description}
+              </p>
+              {getSttLimitations(getSttProvider(sttProvider)).map((limitation) => (
+                <p key={limitation} className="text-xs text-amber-700">
+                  {limitation}
+                </p>
+              ))}
+            </div>
+          </Card>
+
+          <Separator />
+
+          {/* API Key Storage */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">
+              API Key Storage
+            </h3>
+            <KeyStorageSettings
+              currentStorage={currentKeyStorage}
+              value={keyStorage}
+              onChange={setKeyStorage}
+              isLocked={areKeysLocked}
+              passphrase={passphrase}
+              onPassphraseChange={setPassphrase}
+              passphraseConfirmation={passphraseConfirmation}
+              onPassphraseConfirmationChange={setPassphraseConfirmation}
+              error={keyStorageError}
+            />
+          </Card>
+
+          <Separator />
+
           {/* Gladia API */}
           <Card className="p-4">
             <h3 className="text-sm font-semibold text-slate-900 mb-3">
@@ -122,6 +385,40 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
 
           <Separator />
 
+          {/* Translation */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">
+              Translation
+            </h3>
+            <div className="space-y-2">
+              <Label htmlFor="translation-provider" className="text-sm font-medium">
+                Provider
+              </Label>
+              <Select value={translationProvider} onValueChange={setTranslationProvider}>
+                <SelectTrigger id="translation-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TRANSLATION_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-600">
+                {TRANSLATION_PROVIDERS.find((provider) => provider.id === translationProvider)?.description}
+              </p>
+              {translationProvider === 'gladia' && !getSttProvider(sttProvider).supportsTranslation && (
+                <p className="text-xs text-amber-700">
+                  The selected speech-to-text engine does not provide realtime translation.
+                </p>
+              )}
+            </div>
+          </Card>
+
+          <Separator />
+
           {/* Azure Translation API */}
           <Card className="p-4">
             <h3 className="text-sm font-semibold text-slate-900 mb-3">
@@ -152,19 +449,89 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
 
           <Separator />
 
+          {/* Glossary */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-1">
+              Glossary
+            </h3>
+            <p className="text-xs text-slate-600 mb-3">
+              Product and people's names to get right. Terms and their pronunciation hints help Gladia recognize them; Azure Translator keeps each term as it is or uses its fixed translation. Import and export as CSV or TBX.
+            </p>
+            <GlossarySettings glossary={glossary} onChange={setGlossary} />
+          </Card>
+
+          <Separator />
+
+          {/* Text-to-Speech Engine */}
+          <Card className="p-4">
+            <h3 className="text-sm font-semibold text-slate-900 mb-3">
+              Text-to-Speech Engine
+            </h3>
+            <div className="space-y-2">
+              <Label htmlFor="tts-provider" className="text-sm font-medium">
+                Engine
+              </Label>
+              <Select value={ttsProvider} onValueChange={setTtsProvider}>
+                <SelectTrigger id="tts-provider">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {TTS_PROVIDERS.map((provider) => (
+                    <SelectItem key={provider.id} value={provider.id}>
+                      {provider.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-slate-600">
+                {TTS_PROVIDERS.find((provider) => provider.id === ttsProvider)?.description}
+              </p>
+            </div>
+          </Card>
+
+          <Separator />
+
           {/* ElevenLabs API */}
           <Card className="p-4">
             <h3 className="text-sm font-semibold text-slate-900 mb-3">
               ElevenLabs (Text-to-Speech)
             </h3>
-            {renderKeyInput(
-              'API Key',
-              elevenlabsKey,
-              setElevenlabsKey,
-              'elevenlabs',
-              'Enter your ElevenLabs API key',
-              'Used for converting translated text to speech. Get your key from https://elevenlabs.io'
-            )}
+            <div className="space-y-4">
+              {renderKeyInput(
+                'API Key',
+                elevenlabsKey,
+                setElevenlabsKey,
+                'elevenlabs',
+                'Enter your ElevenLabs API key',
+                'Used for converting translated text to speech. Get your key from https://elevenlabs.io'
+              )}
+              <div className="flex items-center justify-between gap-4">
+                <div>
+                  <Label htmlFor="elevenlabs-streaming" className="text-sm font-medium">
+                    Streaming playback
+                  </Label>
+                  <p className="text-xs text-slate-500">
+                    Start speaking as soon as the first audio arrives instead of after the whole sentence is generated.
+                  </p>
+                </div>
+                <Switch
+                  id="elevenlabs-streaming"
+                  checked={elevenlabsStreaming}
+                  onCheckedChange={setElevenlabsStreaming}
+                />
+              </div>
+              <TtsProfileSettings settings={ttsProfiles} onChange={setTtsProfiles} />
+              <VoiceMappingSettings
+                voices={voices}
+                mapping={voiceMapping}
+                onChange={setVoiceMapping}
+                onPreview={previewVoice}
+                previewLanguage={previewLanguage}
+                isLoading={isLoadingVoices}
+                error={voicesError || previewError}
+                onRefresh={() => refreshVoices(elevenlabsKey)}
+              />
+            </div>
           </Card>
 
           <Separator />
@@ -172,33 +539,75 @@ const SettingsModal = ({ isOpen, onClose }: SettingsModalProps) => {
           {/* LLM API */}
           <Card className="p-4">
             <h3 className="text-sm font-semibold text-slate-900 mb-3">
-              LLM API (Optional - Future Features)
+              LLM (Translation and Summaries)
             </h3>
             <div className="space-y-4">
               <div className="space-y-2">
                 <Label htmlFor="llm-provider" className="text-sm font-medium">
                   LLM Provider
                 </Label>
-                <Select value={llmProvider} onValueChange={setLlmProvider}>
-                  <SelectTrigger>
+                <Select
+                  value={llmSettings.providerId}
+                  onValueChange={(providerId) => updateLlmSettings({ providerId: providerId as LlmProviderId })}
+                >
+                  <SelectTrigger id="llm-provider">
                     <SelectValue />
                   </SelectTrigger>
                   <SelectContent>
-                    <SelectItem value="openai">OpenAI</SelectItem>
-                    <SelectItem value="azure">Azure OpenAI</SelectItem>
-                    <SelectItem value="gemini">Google Gemini</SelectItem>
-                    <SelectItem value="aws">AWS Bedrock</SelectItem>
+                    {LLM_PROVIDERS.map((provider) => (
+                      <SelectItem key={provider.id} value={provider.id}>
+                        {provider.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
               {renderKeyInput(
                 'API Key',
-                llmKey,
-                setLlmKey,
+                llmSettings.apiKey,
+                (apiKey) => updateLlmSettings({ apiKey }),
                 'llm',
-                `Enter your ${llmProvider} API key`,
-                'Optional: For advanced features like context understanding and summarization.'
+                `Enter your ${llmProvider.name} API key`,
+                llmProvider.requiresApiKey
+                  ? 'Used for LLM translation and the meeting summary.'
+                  : 'Optional: only if your server requires one.'
               )}
+              <div className="space-y-2">
+                <Label htmlFor="llm-base-url" className="text-sm font-medium">
+                  Base URL
+                </Label>
+                <Input
+                  id="llm-base-url"
+                  value={llmSettings.baseUrl}
+                  onChange={(e) => updateLlmSettings({ baseUrl: e.target.value })}
+                  placeholder={llmProvider.defaultBaseUrl || llmProvider.baseUrlHint}
+                />
+                <p className="text-xs text-slate-600">
+                  Any OpenAI-compatible API, e.g. a local model server. Leave empty for the provider default.
+                </p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-model" className="text-sm font-medium">
+                  Model
+                </Label>
+                <Input
+                  id="llm-model"
+                  value={llmSettings.model}
+                  onChange={(e) => updateLlmSettings({ model: e.target.value })}
+                  placeholder={llmProvider.defaultModel || 'Model or deployment name'}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="llm-tone" className="text-sm font-medium">
+                  Translation tone
+                </Label>
+                <Input
+                  id="llm-tone"
+                  value={llmSettings.tone}
+                  onChange={(e) => updateLlmSettings({ tone: e.target.value })}
+                  placeholder="e.g., formal, friendly, concise"
+                />
+              </div>
             </div>
           </Card>
 
@@ -0,0 +1,94 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Pause, Play, SkipForward, Trash2, Volume2 } from "lucide-react";
+
+interface SpeechQueueControlsProps {
+  currentText: string | null;
+  // The current sentence is still waiting for its audio
+  isPreparing: boolean;
+  // Time to first audio byte of the current sentence
+  firstByteMs: number | null;
+  queueLength: number;
+  isPaused: boolean;
+  onPause: () => void;
+  onResume: () => void;
+  onSkip: () => void;
+  onClear: () => void;
+}
+
+const SpeechQueueControls = ({
+  currentText,
+  isPreparing,
+  firstByteMs,
+  queueLength,
+  isPaused,
+  onPause,
+  onResume,
+  onSkip,
+  onClear,
+}: SpeechQueueControlsProps) => {
+  const isIdle = !currentText && queueLength === 0;
+
+  return (
+    <div className="flex items-center justify-between gap-4 p-3 mb-6 bg-slate-50 border border-slate-200 rounded-lg">
+      <div className="flex items-center space-x-2 min-w-0 text-sm text-slate-600">
+        <Volume2
+          className={`w-4 h-4 shrink-0 ${
+            currentText && !isPaused && !isPreparing ? "text-blue-600 animate-pulse" : "text-slate-400"
+          }`}
+        />
+        <span className="truncate">
+          {currentText
+            ? `${isPaused ? "Paused" : isPreparing ? "Preparing" : "Speaking"}: ${currentText}`
+            : isPaused
+            ? "Paused"
+            : "Nothing to speak"}
+        </span>
+        {currentText && firstByteMs !== null && (
+          <span
+            className="shrink-0 text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded"
+            title="Time to first audio byte"
+          >
+            {Math.round(firstByteMs)} ms
+          </span>
+        )}
+        <span className="shrink-0 text-xs text-slate-500 bg-slate-100 px-2 py-1 rounded">
+          {queueLength} queued
+        </span>
+      </div>
+      <div className="flex items-center space-x-1 shrink-0">
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={isPaused ? onResume : onPause}
+          title={isPaused ? "Resume" : "Pause"}
+        >
+          {isPaused ? <Play className="w-4 h-4" /> : <Pause className="w-4 h-4" />}
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onSkip}
+          disabled={!currentText}
+          title="Skip sentence"
+        >
+          <SkipForward className="w-4 h-4" />
+        </Button>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 w-8 p-0"
+          onClick={onClear}
+          disabled={isIdle}
+          title="Clear queue"
+        >
+          <Trash2 className="w-4 h-4" />
+        </Button>
+      </div>
+    </div>
+  );
+};
+
+export default SpeechQueueControls;
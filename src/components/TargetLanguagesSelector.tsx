@@ -0,0 +1,86 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Popover,
+  PopoverContent,
+  PopoverTrigger,
+} from "@/components/ui/popover";
+import { ChevronDown } from "lucide-react";
+import { LANGUAGES, getLanguageName } from "@/lib/languages";
+
+interface TargetLanguagesSelectorProps {
+  // Selected language codes, in the order they were added
+  value: string[];
+  onChange: (value: string[]) => void;
+  label: string;
+  max: number;
+  disabled?: boolean;
+}
+
+const TargetLanguagesSelector = ({
+  value,
+  onChange,
+  label,
+  max,
+  disabled,
+}: TargetLanguagesSelectorProps) => {
+  const toggle = (code: string, checked: boolean) =>
+    onChange(
+      checked ? [...value, code] : value.filter((selected) => selected !== code)
+    );
+
+  return (
+    <div className="flex items-center space-x-2">
+      <span className="text-sm font-medium text-slate-600">{label}:</span>
+      <Popover>
+        <PopoverTrigger asChild>
+          <Button
+            variant="outline"
+            className="w-48 justify-between font-normal"
+            disabled={disabled}
+          >
+            <span className="truncate">
+              {value.length === 1
+                ? getLanguageName(value[0])
+                : `${value.length} languages`}
+            </span>
+            <ChevronDown className="w-4 h-4 opacity-50" />
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-56 p-2" align="end">
+          <p className="px-2 pb-2 text-xs text-slate-500">
+            Up to {max} languages
+          </p>
+          <div className="max-h-60 overflow-y-auto">
+            {LANGUAGES.map((language) => {
+              const checked = value.includes(language.code);
+              // At least one target stays selected
+              const disabled = checked
+                ? value.length === 1
+                : value.length >= max;
+
+              return (
+                <label
+                  key={language.code}
+                  className={`flex items-center space-x-2 px-2 py-1.5 rounded text-sm ${
+                    disabled ? "opacity-50" : "cursor-pointer hover:bg-slate-100"
+                  }`}
+                >
+                  <Checkbox
+                    checked={checked}
+                    disabled={disabled}
+                    onCheckedChange={(next) => toggle(language.code, next === true)}
+                  />
+                  <span>{language.name}</span>
+                </label>
+              );
+            })}
+          </div>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default TargetLanguagesSelector;
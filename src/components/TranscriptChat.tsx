@@ -0,0 +1,194 @@
+import React, { useEffect, useRef, useState } from "react";
+import { Button } from "@/components/ui/button";
+import { Card } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, MessageCircleQuestion, Send, Trash2 } from "lucide-react";
+import { getLanguageName } from "@/lib/languages";
+import {
+  getCitationLabel,
+  parseAnswer,
+  type TranscriptQuestion,
+} from "@/lib/questions";
+import type { TranscriptSegment } from "@/lib/transcript";
+
+interface TranscriptChatProps {
+  segments: TranscriptSegment[];
+  questions: TranscriptQuestion[];
+  isAnswering: boolean;
+  // Whether an LLM is configured to answer
+  isAvailable: boolean;
+  // Languages an answer can be written in, the first one by default
+  languages: string[];
+  onAsk: (question: string, language: string) => void;
+  onClear: () => void;
+  onJumpToSegment: (segmentId: string) => void;
+}
+
+const Answer = ({
+  answer,
+  segments,
+  onJumpToSegment,
+}: {
+  answer: string;
+  segments: TranscriptSegment[];
+  onJumpToSegment: (segmentId: string) => void;
+}) => (
+  <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">
+    {parseAnswer(answer).map((part, index) => {
+      if (part.type === "text") return part.text;
+
+      const label = getCitationLabel(segments, part.number);
+      if (!label) return null;
+      return (
+        <button
+          key={index}
+          type="button"
+          className="mx-0.5 px-1.5 py-0.5 text-xs font-medium text-blue-700 bg-blue-50 rounded hover:bg-blue-100"
+          onClick={() => onJumpToSegment(segments[part.number - 1].id)}
+          title="Show in the transcript"
+        >
+          {label}
+        </button>
+      );
+    })}
+  </p>
+);
+
+const TranscriptChat = ({
+  segments,
+  questions,
+  isAnswering,
+  isAvailable,
+  languages,
+  onAsk,
+  onClear,
+  onJumpToSegment,
+}: TranscriptChatProps) => {
+  const [draft, setDraft] = useState("");
+  const [language, setLanguage] = useState(languages[0]);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  // Fall back to the first target when the chosen one is removed
+  const answerLanguage = languages.includes(language) ? language : languages[0];
+
+  // Follow the conversation as answers stream in
+  useEffect(() => {
+    listRef.current?.scrollTo({ top: listRef.current.scrollHeight });
+  }, [questions]);
+
+  const canAsk =
+    isAvailable && !isAnswering && segments.length > 0 && !!draft.trim();
+
+  const handleSubmit = (event: React.FormEvent) => {
+    event.preventDefault();
+    if (!canAsk) return;
+    onAsk(draft.trim(), answerLanguage);
+    setDraft("");
+  };
+
+  return (
+    <Card className="p-6">
+      <div className="flex items-center justify-between mb-4">
+        <h2 className="flex items-center text-lg font-semibold text-slate-900">
+          <MessageCircleQuestion className="w-5 h-5 mr-2 text-blue-600" />
+          Ask the Transcript
+        </h2>
+        <div className="flex items-center space-x-2">
+          {languages.length > 1 && (
+            <Select value={answerLanguage} onValueChange={setLanguage}>
+              <SelectTrigger className="w-36">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {languages.map((code) => (
+                  <SelectItem key={code} value={code}>
+                    {getLanguageName(code)}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          )}
+          {questions.length > 0 && (
+            <Button
+              variant="ghost"
+              size="sm"
+              className="h-8 w-8 p-0"
+              onClick={onClear}
+              title="Clear the questions"
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+          )}
+        </div>
+      </div>
+
+      {!isAvailable ? (
+        <p className="text-sm text-slate-500">
+          Configure an LLM in the settings to ask questions about the
+          transcript.
+        </p>
+      ) : (
+        <>
+          {questions.length > 0 && (
+            <div
+              ref={listRef}
+              className="max-h-96 overflow-y-auto space-y-4 mb-4 text-sm"
+            >
+              {questions.map((item) => (
+                <div key={item.id} className="space-y-2">
+                  <p className="ml-8 p-3 bg-blue-50 text-slate-800 rounded-lg">
+                    {item.question}
+                  </p>
+                  <div className="mr-8 p-3 bg-slate-50 border border-slate-200 rounded-lg">
+                    {item.error ? (
+                      <p className="text-red-700">{item.error}</p>
+                    ) : item.answer ? (
+                      <Answer
+                        answer={item.answer}
+                        segments={segments}
+                        onJumpToSegment={onJumpToSegment}
+                      />
+                    ) : (
+                      <Loader2 className="w-4 h-4 animate-spin text-slate-400" />
+                    )}
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          <form onSubmit={handleSubmit} className="flex items-center space-x-2">
+            <Input
+              value={draft}
+              onChange={(event) => setDraft(event.target.value)}
+              placeholder={
+                segments.length > 0
+                  ? `Ask in any language, answered in ${getLanguageName(
+                      answerLanguage
+                    )}`
+                  : "Questions can be asked once there is a transcript"
+              }
+              disabled={segments.length === 0}
+            />
+            <Button type="submit" size="sm" className="h-10" disabled={!canAsk}>
+              {isAnswering ? (
+                <Loader2 className="w-4 h-4 animate-spin" />
+              ) : (
+                <Send className="w-4 h-4" />
+              )}
+            </Button>
+          </form>
+        </>
+      )}
+    </Card>
+  );
+};
+
+export default TranscriptChat;
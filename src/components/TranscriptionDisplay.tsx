@@ -1,15 +1,29 @@
 
-import React from 'react';
+import React, { useEffect, useRef } from 'react';
 import { Card } from '@/components/ui/card';
+import { needsSpaceBetween, type TranscriptSegment } from '@/lib/transcript';
 
 interface TranscriptionDisplayProps {
   text: string;
   language: string;
   isProcessing: boolean;
   title: string;
+  // Not yet finalized text, shown after the finalized text and replaced as it is revised
+  tentativeText?: string;
+  // Rendered one by one instead of text, so a segment can be jumped to
+  segments?: TranscriptSegment[];
+  // Segment to scroll to and highlight; a new object on every jump
+  highlight?: { segmentId: string } | null;
 }
 
-const TranscriptionDisplay = ({ text, language, isProcessing, title }: TranscriptionDisplayProps) => {
+const TranscriptionDisplay = ({ text, language, isProcessing, title, tentativeText, segments, highlight }: TranscriptionDisplayProps) => {
+  const hasText = !!text || !!tentativeText;
+  const highlightRef = useRef<HTMLSpanElement>(null);
+
+  useEffect(() => {
+    highlightRef.current?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [highlight]);
+
   return (
     <div className="space-y-3">
       <div className="flex items-center justify-between">
@@ -20,9 +34,27 @@ const TranscriptionDisplay = ({ text, language, isProcessing, title }: Transcrip
       </div>
       
       <Card className="p-4 min-h-32 bg-slate-50 border-slate-200">
-        {text ? (
+        {hasText ? (
           <p className="text-slate-800 leading-relaxed whitespace-pre-wrap">
-            {text}
+            {segments
+              ? segments.map((segment, index) => (
+                  <React.Fragment key={segment.id}>
+                    {index > 0 && needsSpaceBetween(segments[index - 1].text, segment.text) ? ' ' : ''}
+                    <span
+                      ref={segment.id === highlight?.segmentId ? highlightRef : undefined}
+                      className={segment.id === highlight?.segmentId ? 'bg-yellow-100 rounded' : undefined}
+                    >
+                      {segment.text}
+                    </span>
+                  </React.Fragment>
+                ))
+              : text}
+            {tentativeText && (
+              <span className="text-slate-400 italic">
+                {text ? ' ' : ''}
+                {tentativeText}
+              </span>
+            )}
             {isProcessing && (
               <span className="inline-block w-1 h-5 bg-blue-600 ml-1 animate-pulse" />
             )}
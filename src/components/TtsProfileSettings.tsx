@@ -0,0 +1,182 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Slider } from "@/components/ui/slider";
+import { Switch } from "@/components/ui/switch";
+import { Plus, Trash2 } from "lucide-react";
+import {
+  ELEVENLABS_MODELS,
+  OUTPUT_FORMATS,
+  createTtsProfile,
+  getActiveTtsProfile,
+  type TtsProfile,
+  type TtsProfileSettings as TtsProfileSettingsValue,
+} from "@/lib/tts/profiles";
+
+interface TtsProfileSettingsProps {
+  settings: TtsProfileSettingsValue;
+  onChange: (settings: TtsProfileSettingsValue) => void;
+}
+
+const VOICE_SETTING_SLIDERS: {
+  key: "stability" | "similarityBoost" | "style";
+  label: string;
+}[] = [
+  { key: "stability", label: "Stability" },
+  { key: "similarityBoost", label: "Similarity" },
+  { key: "style", label: "Style" },
+];
+
+const TtsProfileSettings = ({ settings, onChange }: TtsProfileSettingsProps) => {
+  const profile = getActiveTtsProfile(settings);
+
+  const updateProfile = (changes: Partial<TtsProfile>) =>
+    onChange({
+      ...settings,
+      profiles: settings.profiles.map((item) =>
+        item.id === profile.id ? { ...item, ...changes } : item
+      ),
+    });
+
+  const addProfile = () => {
+    const created = createTtsProfile(
+      profile,
+      `Profile ${settings.profiles.length + 1}`
+    );
+    onChange({
+      profiles: [...settings.profiles, created],
+      activeProfileId: created.id,
+    });
+  };
+
+  const deleteProfile = () => {
+    const profiles = settings.profiles.filter((item) => item.id !== profile.id);
+    onChange({ profiles, activeProfileId: profiles[0].id });
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Voice profile</Label>
+        <div className="flex items-center gap-2">
+          <Select
+            value={profile.id}
+            onValueChange={(activeProfileId) =>
+              onChange({ ...settings, activeProfileId })
+            }
+          >
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {settings.profiles.map((item) => (
+                <SelectItem key={item.id} value={item.id}>
+                  {item.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0"
+            onClick={addProfile}
+            title="New profile from this one"
+          >
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            className="h-9 w-9 p-0"
+            onClick={deleteProfile}
+            disabled={settings.profiles.length <= 1}
+            title="Delete profile"
+          >
+            <Trash2 className="w-4 h-4" />
+          </Button>
+        </div>
+        <Input
+          value={profile.name}
+          onChange={(e) => updateProfile({ name: e.target.value })}
+          placeholder="Profile name"
+        />
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Model</Label>
+        <Select
+          value={profile.modelId}
+          onValueChange={(modelId) => updateProfile({ modelId })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {ELEVENLABS_MODELS.map((model) => (
+              <SelectItem key={model.id} value={model.id}>
+                {model.name} - {model.description}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      <div className="space-y-2">
+        <Label className="text-sm font-medium">Output format</Label>
+        <Select
+          value={profile.outputFormat}
+          onValueChange={(outputFormat) => updateProfile({ outputFormat })}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            {OUTPUT_FORMATS.map((format) => (
+              <SelectItem key={format.id} value={format.id}>
+                {format.name}
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+      {VOICE_SETTING_SLIDERS.map(({ key, label }) => (
+        <div key={key} className="flex items-center space-x-3">
+          <span className="text-sm font-medium w-24">{label}</span>
+          <Slider
+            value={[profile[key]]}
+            min={0}
+            max={1}
+            step={0.05}
+            onValueChange={([value]) => updateProfile({ [key]: value })}
+          />
+          <span className="text-xs text-slate-500 w-10 text-right">
+            {Math.round(profile[key] * 100)}%
+          </span>
+        </div>
+      ))}
+      <div className="flex items-center justify-between">
+        <Label htmlFor="speaker-boost" className="text-sm font-medium">
+          Speaker boost
+        </Label>
+        <Switch
+          id="speaker-boost"
+          checked={profile.useSpeakerBoost}
+          onCheckedChange={(useSpeakerBoost) =>
+            updateProfile({ useSpeakerBoost })
+          }
+        />
+      </div>
+    </div>
+  );
+};
+
+export default TtsProfileSettings;
@@ -0,0 +1,138 @@
+import React from "react";
+import { Button } from "@/components/ui/button";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Loader2, Play, RefreshCw } from "lucide-react";
+import { LANGUAGES } from "@/lib/languages";
+import {
+  getDefaultVoiceId,
+  type ElevenLabsVoice,
+  type VoiceMapping,
+} from "@/lib/tts/voices";
+
+interface VoiceMappingSettingsProps {
+  voices: ElevenLabsVoice[];
+  mapping: VoiceMapping;
+  onChange: (mapping: VoiceMapping) => void;
+  onPreview: (language: string, voiceId: string) => void;
+  // Language whose preview is currently loading or playing
+  previewLanguage: string | null;
+  isLoading: boolean;
+  error: string | null;
+  onRefresh: () => void;
+}
+
+// Radix Select does not accept empty values, so the built-in voice gets a sentinel
+const DEFAULT_VOICE_VALUE = "__default__";
+
+const describeVoice = (voice: ElevenLabsVoice) => {
+  const details = [voice.labels?.accent, voice.labels?.gender].filter(Boolean);
+  return details.length ? `${voice.name} (${details.join(", ")})` : voice.name;
+};
+
+const VoiceMappingSettings = ({
+  voices,
+  mapping,
+  onChange,
+  onPreview,
+  previewLanguage,
+  isLoading,
+  error,
+  onRefresh,
+}: VoiceMappingSettingsProps) => {
+  const voiceName = (voiceId: string) =>
+    voices.find((voice) => voice.voice_id === voiceId)?.name;
+
+  const setVoice = (language: string, voiceId: string) => {
+    const next = { ...mapping };
+    if (voiceId === DEFAULT_VOICE_VALUE) {
+      delete next[language];
+    } else {
+      next[language] = voiceId;
+    }
+    onChange(next);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between">
+        <span className="text-sm font-medium">Voice per language</span>
+        <Button
+          type="button"
+          variant="ghost"
+          size="sm"
+          className="h-8 px-2"
+          onClick={onRefresh}
+          disabled={isLoading}
+          title="Reload voices"
+        >
+          <RefreshCw className={`w-4 h-4 ${isLoading ? "animate-spin" : ""}`} />
+        </Button>
+      </div>
+      {error && <p className="text-xs text-red-600">{error}</p>}
+      {!error && voices.length === 0 && !isLoading && (
+        <p className="text-xs text-slate-600">
+          Enter an API key and reload to choose from your ElevenLabs voices.
+        </p>
+      )}
+      <div className="max-h-72 overflow-y-auto space-y-2 pr-1">
+        {LANGUAGES.map(({ code, name }) => {
+          const selected = mapping[code];
+          const defaultName = voiceName(getDefaultVoiceId(code));
+          // A saved voice that is not in the loaded list is still shown
+          const isUnlisted =
+            selected && !voices.some((voice) => voice.voice_id === selected);
+
+          return (
+            <div key={code} className="flex items-center gap-2">
+              <span className="w-28 shrink-0 text-sm text-slate-600">{name}</span>
+              <Select
+                value={selected || DEFAULT_VOICE_VALUE}
+                onValueChange={(voiceId) => setVoice(code, voiceId)}
+              >
+                <SelectTrigger className="flex-1 h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent className="max-h-60">
+                  <SelectItem value={DEFAULT_VOICE_VALUE}>
+                    {defaultName ? `Default (${defaultName})` : "Default"}
+                  </SelectItem>
+                  {isUnlisted && (
+                    <SelectItem value={selected}>{selected}</SelectItem>
+                  )}
+                  {voices.map((voice) => (
+                    <SelectItem key={voice.voice_id} value={voice.voice_id}>
+                      {describeVoice(voice)}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <Button
+                type="button"
+                variant="ghost"
+                size="sm"
+                className="h-8 w-8 p-0 shrink-0"
+                onClick={() => onPreview(code, selected || getDefaultVoiceId(code))}
+                disabled={previewLanguage !== null}
+                title={`Preview ${name} voice`}
+              >
+                {previewLanguage === code ? (
+                  <Loader2 className="w-4 h-4 animate-spin" />
+                ) : (
+                  <Play className="w-4 h-4" />
+                )}
+              </Button>
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default VoiceMappingSettings;
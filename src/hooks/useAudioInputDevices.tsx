@@ -0,0 +1,39 @@
+import { useState, useCallback, useEffect } from "react";
+
+interface UseAudioInputDevicesReturn {
+  devices: MediaDeviceInfo[];
+  // Re-enumerate, e.g. after microphone permission was granted and labels became available
+  refresh: () => Promise<void>;
+}
+
+export const useAudioInputDevices = (): UseAudioInputDevicesReturn => {
+  const [devices, setDevices] = useState<MediaDeviceInfo[]>([]);
+
+  const refresh = useCallback(async () => {
+    if (!navigator.mediaDevices?.enumerateDevices) return;
+    try {
+      const allDevices = await navigator.mediaDevices.enumerateDevices();
+      // Chrome lists the system default as a pseudo-device; it is offered separately
+      setDevices(
+        allDevices.filter(
+          (device) =>
+            device.kind === "audioinput" &&
+            device.deviceId &&
+            device.deviceId !== "default"
+        )
+      );
+    } catch (err) {
+      console.error("Error enumerating audio devices:", err);
+    }
+  }, []);
+
+  useEffect(() => {
+    refresh();
+    navigator.mediaDevices?.addEventListener("devicechange", refresh);
+    return () => {
+      navigator.mediaDevices?.removeEventListener("devicechange", refresh);
+    };
+  }, [refresh]);
+
+  return { devices, refresh };
+};
@@ -1,283 +1,525 @@
-import { useState, useRef, useCallback } from "react";
+import { useState, useRef, useCallback, useEffect } from "react";
+import {
+  getSelectedSttProvider,
+  type SttEvent,
+  type SttSession,
+  type SttUtterance,
+} from "@/lib/stt";
+import { createLevelMeter, type AudioLevels, type LevelMeter } from "@/lib/audio/levelMeter";
+import { getGlossaryVocabulary } from "@/lib/glossary";
+import {
+  buildAudioConstraints,
+  DEFAULT_AUDIO_INPUT_SETTINGS,
+  type AudioInputSettings,
+} from "@/lib/audio/inputSettings";
+import {
+  DEFAULT_CAPTURE_GAINS,
+  getCaptureInputs,
+  openDisplayAudioStream,
+  type CaptureGains,
+  type CaptureInputKind,
+  type CaptureSource,
+} from "@/lib/audio/captureSource";
+import {
+  MAX_FRAME_DURATION_MS,
+  MIN_FRAME_DURATION_MS,
+  PCM_FLUSH_MESSAGE,
+  PCM_FLUSHED_MESSAGE,
+  PCM_PROCESSOR_NAME,
+  type PcmProcessorOptions,
+} from "@/lib/audio/pcmProtocol";
+import pcmProcessorUrl from "@/lib/audio/pcmProcessor.worklet.ts?worker&url";
 
 interface UseAudioRecordingProps {
-  onTranscription: (text: string) => void;
-  sourceLanguage;
-  targetLanguage;
+  // Receives each finalized utterance exactly once
+  onTranscription: (utterance: SttUtterance) => void;
+  // Receives translations produced by the speech-to-text engine itself
+  onTranslation?: (utteranceId: string, text: string, language: string) => void;
+  sourceLanguage: string;
+  // Languages to detect between, e.g. the two languages of a conversation
+  languageCandidates?: string[];
+  targetLanguages: string[];
+  // Request realtime translation from the engine when it supports it
+  realtimeTranslation?: boolean;
+  // Changing this while recording swaps the input without ending the session
+  audioInput?: AudioInputSettings;
+  // Which inputs feed the transcription; read when recording starts
+  captureSource?: CaptureSource;
+  // Per-input gain, applied live
+  captureGains?: CaptureGains;
+}
+
+export type ConnectionState =
+  | "idle"
+  | "connecting"
+  | "connected"
+  | "reconnecting"
+  | "failed";
+
+// Languages of a single session, overriding the ones passed as props
+export interface RecordingLanguages {
+  sourceLanguage: string;
+  languageCandidates?: string[];
+  targetLanguages: string[];
 }
 
 interface UseAudioRecordingReturn {
-  startRecording: () => Promise<boolean>;
+  startRecording: (languages?: RecordingLanguages) => Promise<boolean>;
   stopRecording: () => Promise<void>;
   isConnected: boolean;
+  connectionState: ConnectionState;
+  // True while a stop waits for the engine to deliver the last finals
+  isFinishing: boolean;
   transcription: string;
+  // Tentative text of utterances that have not been finalized yet
+  partialTranscription: string;
+  // Current levels of the mixed input, or null when not recording
+  getAudioLevels: () => AudioLevels | null;
   error: string | null;
+  // Set while the microphone in use is not the one selected
+  inputNotice: string | null;
 }
 
-interface AudioProcessor {
+interface CaptureInput {
+  stream: MediaStream;
   source: MediaStreamAudioSourceNode;
+  gain: GainNode;
+}
+
+interface AudioProcessor {
   node: AudioWorkletNode;
   audioContext: AudioContext;
+  // All inputs are summed into this node, which feeds the worklet and the meter
+  mixer: GainNode;
+  levelMeter: LevelMeter;
+  inputs: Partial<Record<CaptureInputKind, CaptureInput>>;
 }
 
+const SAMPLE_RATE = 16000;
+
+// getUserMedia errors for a remembered device that is no longer plugged in
+const isMissingDeviceError = (err: unknown) =>
+  err instanceof Error &&
+  (err.name === "OverconstrainedError" || err.name === "NotFoundError");
+// Longest wait for the worklet to hand over its last partial frame on stop
+const FLUSH_TIMEOUT_MS = 200;
+
+const clampFrameDuration = (ms: number) =>
+  Math.min(MAX_FRAME_DURATION_MS, Math.max(MIN_FRAME_DURATION_MS, ms));
+
+// Ask the worklet to post its buffered partial frame and wait until it did
+const flushWorklet = (node: AudioWorkletNode) =>
+  new Promise<void>((resolve) => {
+    const timer = setTimeout(resolve, FLUSH_TIMEOUT_MS);
+    node.port.addEventListener("message", ({ data }) => {
+      if (data !== PCM_FLUSHED_MESSAGE) return;
+      clearTimeout(timer);
+      resolve();
+    });
+    node.port.postMessage(PCM_FLUSH_MESSAGE);
+  });
+
+const isSameInput = (a: AudioInputSettings, b: AudioInputSettings) =>
+  a.deviceId === b.deviceId &&
+  a.echoCancellation === b.echoCancellation &&
+  a.noiseSuppression === b.noiseSuppression &&
+  a.autoGainControl === b.autoGainControl;
+
+// Route a stream through its own gain node into the mixer
+const connectInput = (
+  { audioContext, mixer }: AudioProcessor,
+  stream: MediaStream,
+  gainValue: number
+): CaptureInput => {
+  const source = audioContext.createMediaStreamSource(stream);
+  const gain = audioContext.createGain();
+  gain.gain.value = gainValue;
+  source.connect(gain);
+  gain.connect(mixer);
+  return { stream, source, gain };
+};
+
+const stopInput = (input: CaptureInput) => {
+  input.source.disconnect();
+  input.gain.disconnect();
+  input.stream.getTracks().forEach((track) => track.stop());
+};
+
 export const useAudioRecording = ({
   onTranscription,
+  onTranslation,
   sourceLanguage,
-  targetLanguage,
+  languageCandidates,
+  targetLanguages,
+  realtimeTranslation = false,
+  audioInput = DEFAULT_AUDIO_INPUT_SETTINGS,
+  captureSource = "microphone",
+  captureGains = DEFAULT_CAPTURE_GAINS,
 }: UseAudioRecordingProps): UseAudioRecordingReturn => {
-  const [isConnected, setIsConnected] = useState(false);
+  const [connectionState, setConnectionState] =
+    useState<ConnectionState>("idle");
+  const [isFinishing, setIsFinishing] = useState(false);
   const [transcription, setTranscription] = useState("");
+  const [partials, setPartials] = useState<Map<string, string>>(new Map());
   const [error, setError] = useState<string | null>(null);
+  const [inputNotice, setInputNotice] = useState<string | null>(null);
 
   const audioProcessorRef = useRef<AudioProcessor | null>(null);
-  const wsRef = useRef<WebSocket | null>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const sessionIdRef = useRef<string | null>(null);
-
-  const startRecording = useCallback(async (): Promise<boolean> => {
-    try {
-      setError(null);
-
-      const GLADIA_API_KEY = localStorage.getItem("gladia_api_key");
-
-      if (!GLADIA_API_KEY) {
-        setError("Gladia API key not configured");
-        return false;
+  const sessionRef = useRef<SttSession | null>(null);
+  // Utterance ids already finalized, so late partials or repeated finals are ignored
+  const finalizedIdsRef = useRef<Set<string>>(new Set());
+  // Input settings the current microphone stream was opened with
+  const appliedInputRef = useRef<AudioInputSettings | null>(null);
+  const audioInputRef = useRef(audioInput);
+  audioInputRef.current = audioInput;
+  const captureGainsRef = useRef(captureGains);
+  captureGainsRef.current = captureGains;
+
+  // Keep the latest callbacks so provider events never call a stale closure
+  const onTranscriptionRef = useRef(onTranscription);
+  const onTranslationRef = useRef(onTranslation);
+  useEffect(() => {
+    onTranscriptionRef.current = onTranscription;
+    onTranslationRef.current = onTranslation;
+  }, [onTranscription, onTranslation]);
+
+  const handleSttEvent = useCallback((event: SttEvent) => {
+    switch (event.type) {
+      case "partial": {
+        const { id, text } = event.utterance;
+        if (finalizedIdsRef.current.has(id)) break;
+        setPartials((prev) => {
+          const next = new Map(prev);
+          if (text.trim()) next.set(id, text);
+          else next.delete(id);
+          return next;
+        });
+        break;
+      }
+      case "final": {
+        const { id, text } = event.utterance;
+        if (finalizedIdsRef.current.has(id)) break;
+        finalizedIdsRef.current.add(id);
+        setPartials((prev) => {
+          if (!prev.has(id)) return prev;
+          const next = new Map(prev);
+          next.delete(id);
+          return next;
+        });
+        if (text.trim()) {
+          setTranscription(text);
+          onTranscriptionRef.current(event.utterance);
+        }
+        break;
       }
+      case "translation":
+        onTranslationRef.current?.(event.utteranceId, event.text, event.language);
+        break;
+      case "error":
+        setError(event.message);
+        break;
+      case "lifecycle":
+        // Partials of a lost session or a restarted recognizer are never
+        // finalized, and the replayed audio yields them again under new ids
+        if (event.state === "connected" || event.state === "reconnecting") {
+          setPartials(new Map());
+        }
+        if (event.state === "connected") setConnectionState("connected");
+        if (event.state === "reconnecting") setConnectionState("reconnecting");
+        if (event.state === "failed") setConnectionState("failed");
+        if (event.state === "closed") {
+          // Keep a failure visible until the next recording starts
+          setConnectionState((prev) => (prev === "failed" ? prev : "idle"));
+        }
+        break;
+    }
+  }, []);
 
-      // Get microphone access
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: {
-          sampleRate: 16000,
-          channelCount: 1,
-          echoCancellation: true,
-          noiseSuppression: true,
-        },
-      });
+  const openMicrophoneStream = useCallback(
+    async (settings: AudioInputSettings) => {
+      setInputNotice(null);
+      try {
+        return await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(settings, SAMPLE_RATE),
+        });
+      } catch (err) {
+        if (!settings.deviceId || !isMissingDeviceError(err)) throw err;
+        // The selected device is unplugged: record from the default instead
+        const stream = await navigator.mediaDevices.getUserMedia({
+          audio: buildAudioConstraints(
+            { ...settings, deviceId: "" },
+            SAMPLE_RATE
+          ),
+        });
+        setInputNotice(
+          "The selected microphone is not available, using the system default"
+        );
+        return stream;
+      }
+    },
+    []
+  );
+
+  // Replace the microphone stream while keeping the audio graph and the
+  // speech-to-text session alive
+  const switchMicrophone = useCallback(
+    async (settings: AudioInputSettings) => {
+      const processor = audioProcessorRef.current;
+      if (!processor?.inputs.microphone) return;
+
+      const stream = await openMicrophoneStream(settings);
+      // Recording may have stopped while waiting for the new device
+      if (audioProcessorRef.current !== processor) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
+      }
 
-      streamRef.current = stream;
-
-      // Initialize Gladia session
-      // console.log("Initializing Gladia live session…");
-
-      const response = await fetch("https://api.gladia.io/v2/live", {
-        method: "POST",
-        headers: {
-          "X-Gladia-Key": GLADIA_API_KEY,
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({
-          encoding: "wav/pcm", // This is correct, as you will send raw PCM
-          sample_rate: 16000,
-          bit_depth: 16,
-          channels: 1,
-          endpointing: 0.05,
-          language_config: {
-            languages: sourceLanguage == "Auto-Detect" ? [] : [sourceLanguage],
-            code_switching: true,
-          },
-          pre_processing: {
-            speech_threshold: 0.4, // Good starting point
-          },
-          realtime_processing: {
-            translation: true,
-            translation_config: {
-              target_languages: [targetLanguage],
-              context_adaptation: true,
-            },
-            sentiment_analysis: true,
-          },
-          callback_config: {
-            receive_final_transcripts: true,
-            receive_speech_events: true,
-            receive_pre_processing_events: false,
-            receive_realtime_processing_events: false,
-            receive_partial_transcripts: true,
-            receive_post_processing_events: false,
-            receive_acknowledgments: true,
-            receive_errors: true,
-            receive_lifecycle_events: true,
-          },
-          messages_config: {
-            receive_final_transcripts: true,
-            receive_speech_events: true,
-            receive_pre_processing_events: false,
-            receive_realtime_processing_events: false,
-            receive_partial_transcripts: true,
-            receive_post_processing_events: false,
-            receive_acknowledgments: true,
-            receive_errors: true,
-            receive_lifecycle_events: true,
-          },
-        }),
-      });
+      const previous = processor.inputs.microphone;
+      processor.inputs.microphone = connectInput(
+        processor,
+        stream,
+        captureGainsRef.current.microphone
+      );
+      appliedInputRef.current = settings;
+      watchTracksRef.current(processor, "microphone");
+      if (previous) stopInput(previous);
+    },
+    [openMicrophoneStream]
+  );
+
+  // React to inputs ending: an unplugged microphone falls back to the default
+  // device, while ended tab sharing is reported
+  const watchTracks = useCallback(
+    (processor: AudioProcessor, kind: CaptureInputKind) => {
+      const input = processor.inputs[kind];
+      const [track] = input?.stream.getAudioTracks() ?? [];
+      if (!track) return;
+
+      track.onended = () => {
+        if (processor.inputs[kind] !== input) return;
+
+        if (kind === "tab") {
+          setError("Tab audio sharing ended");
+          return;
+        }
 
-      if (!response.ok) {
-        const errorText = await response.text();
-        console.error(
-          `Gladia session initialization failed: ${response.status} - ${
-            errorText || response.statusText
-          }`
-        );
-        throw new Error(
-          `Failed to initialize Gladia session: ${
-            errorText || response.statusText
-          }`
+        console.warn("Audio input ended, switching to the default device");
+        switchMicrophone({ ...audioInputRef.current, deviceId: "" }).catch(
+          (err) => {
+            console.error("Error switching audio input:", err);
+            setError("Microphone disconnected");
+          }
         );
-      }
+      };
+    },
+    [switchMicrophone]
+  );
+  const watchTracksRef = useRef(watchTracks);
+  watchTracksRef.current = watchTracks;
+
+  useEffect(() => {
+    const applied = appliedInputRef.current;
+    if (!audioProcessorRef.current || !applied) return;
+    if (isSameInput(applied, audioInput)) return;
+
+    switchMicrophone(audioInput).catch((err) => {
+      console.error("Error switching audio input:", err);
+      setError(
+        err instanceof Error ? err.message : "Failed to switch audio input"
+      );
+    });
+  }, [audioInput, switchMicrophone]);
+
+  useEffect(() => {
+    const processor = audioProcessorRef.current;
+    if (!processor) return;
+
+    (Object.keys(processor.inputs) as CaptureInputKind[]).forEach((kind) => {
+      processor.inputs[kind]?.gain.gain.setTargetAtTime(
+        captureGains[kind],
+        processor.audioContext.currentTime,
+        0.05
+      );
+    });
+  }, [captureGains]);
 
-      const { id, url } = await response.json();
-      sessionIdRef.current = id;
+  const startRecording = useCallback(async (languages?: RecordingLanguages) => {
+    const streams: Partial<Record<CaptureInputKind, MediaStream>> = {};
+    // Closed again if the audio graph cannot be set up
+    let audioContext: AudioContext | null = null;
 
-      // Connect to WebSocket
-      const ws = new WebSocket(url);
-      wsRef.current = ws;
+    try {
+      setError(null);
+      setConnectionState("idle");
+      setPartials(new Map());
+      finalizedIdsRef.current = new Set();
 
-      ws.onopen = () => {
-        // console.log("Connected to Gladia WebSocket");
-        setIsConnected(true);
-      };
+      const provider = getSelectedSttProvider();
 
-      ws.onmessage = (event) => {
-        try {
-          const message = JSON.parse(event.data);
-          // console.log("Received message:", message);
-
-          if (message.type === "transcript" && message.data?.is_final) {
-            const text = message.data.utterance?.text;
-            if (text) {
-              setTranscription(text);
-              onTranscription(text);
-            }
-          } else if (message.type === "error") {
-            console.error("Gladia error:", message);
-            setError(message.data?.message || "Transcription error");
-          }
-        } catch (err) {
-          console.error("Error parsing WebSocket message:", err);
-        }
-      };
+      if (!provider.isConfigured()) {
+        setError(`${provider.name} is not configured`);
+        return false;
+      }
 
-      ws.onerror = (error) => {
-        console.error("WebSocket error:", error);
-        setError("WebSocket connection error");
-        setIsConnected(false);
-      };
+      // Get access to the selected inputs. Engines that listen on their own
+      // only get the microphone, which still drives the level meter.
+      const inputKinds: CaptureInputKind[] = provider.usesCapturedAudio
+        ? getCaptureInputs(captureSource)
+        : ["microphone"];
+      const inputSettings = audioInputRef.current;
+      if (inputKinds.includes("tab")) {
+        streams.tab = await openDisplayAudioStream();
+      }
+      if (inputKinds.includes("microphone")) {
+        streams.microphone = await openMicrophoneStream(inputSettings);
+      }
 
-      ws.onclose = (event) => {
-        // console.log("WebSocket connection closed", {
-        //   code: event.code,
-        //   reason: event.reason,
-        // });
-        setIsConnected(false);
-
-        // If the connection closed unexpectedly, set an error
-        if (event.code !== 1000) {
-          setError(
-            `Connection closed unexpectedly: ${
-              event.reason || "Unknown reason"
-            }`
-          );
-        }
-      };
+      setConnectionState("connecting");
+      const session = await provider.startSession({
+        ...(languages ?? {
+          sourceLanguage,
+          languageCandidates,
+          targetLanguages,
+        }),
+        sampleRate: SAMPLE_RATE,
+        translate: realtimeTranslation && provider.supportsTranslation,
+        // The glossary is read when recording starts
+        vocabulary: getGlossaryVocabulary(),
+        onEvent: handleSttEvent,
+      });
+      sessionRef.current = session;
 
       // Set up audio context for raw PCM capture
       const AudioContextClass =
         window.AudioContext ||
         (window as unknown as { webkitAudioContext: typeof AudioContext })
           .webkitAudioContext;
-      const audioContext = new AudioContextClass({
-        sampleRate: 16000,
-      });
-
-      const source = audioContext.createMediaStreamSource(stream);
-
-      // Inline AudioWorklet module that forwards raw PCM samples to main thread
-      const workletCode = `
-        class PCMProcessor extends AudioWorkletProcessor {
-          process(inputs) {
-            const channel = inputs[0][0];
-            if (channel) this.port.postMessage(channel);
-            return true;
-          }
-        }
-        registerProcessor('pcm-processor', PCMProcessor);
-      `;
+      // The context runs at the hardware rate; the worklet resamples to
+      // SAMPLE_RATE, so the rate announced to the engine always matches
+      audioContext = new AudioContextClass();
 
-      const blobURL = URL.createObjectURL(
-        new Blob([workletCode], { type: "application/javascript" })
-      );
-      await audioContext.audioWorklet.addModule(blobURL);
-      URL.revokeObjectURL(blobURL);
+      await audioContext.audioWorklet.addModule(pcmProcessorUrl);
 
-      const node = new AudioWorkletNode(audioContext, "pcm-processor");
+      const processorOptions: PcmProcessorOptions = {
+        targetSampleRate: SAMPLE_RATE,
+        frameDurationMs: clampFrameDuration(inputSettings.frameDurationMs),
+      };
+      const node = new AudioWorkletNode(audioContext, PCM_PROCESSOR_NAME, {
+        processorOptions,
+      });
 
       node.port.onmessage = ({ data }) => {
-        if (ws.readyState !== WebSocket.OPEN) return;
-
-        const input = data as Float32Array;
-        const pcm = new Int16Array(input.length);
-        for (let i = 0; i < input.length; i++) {
-          const s = Math.max(-1, Math.min(1, input[i]));
-          pcm[i] = s < 0 ? s * 0x8000 : s * 0x7fff;
-        }
-        ws.send(pcm.buffer);
+        if (data === PCM_FLUSHED_MESSAGE) return;
+        session.sendAudio(new Int16Array(data as ArrayBuffer));
       };
 
-      source.connect(node);
+      const mixer = audioContext.createGain();
+      mixer.connect(node);
       node.connect(audioContext.destination);
 
-      audioProcessorRef.current = { source, node, audioContext };
+      const processor: AudioProcessor = {
+        node,
+        audioContext,
+        mixer,
+        levelMeter: createLevelMeter(audioContext, mixer),
+        inputs: {},
+      };
+
+      (Object.keys(streams) as CaptureInputKind[]).forEach((kind) => {
+        processor.inputs[kind] = connectInput(
+          processor,
+          streams[kind],
+          captureGainsRef.current[kind]
+        );
+      });
+
+      audioProcessorRef.current = processor;
+      appliedInputRef.current = streams.microphone ? inputSettings : null;
+      (Object.keys(processor.inputs) as CaptureInputKind[]).forEach((kind) =>
+        watchTracks(processor, kind)
+      );
 
       return true;
     } catch (err) {
       console.error("Error starting recording:", err);
+      setConnectionState("idle");
+      Object.values(streams).forEach((stream) =>
+        stream.getTracks().forEach((track) => track.stop())
+      );
+      // The engine session may already be open, and would keep reconnecting
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      session?.stop().catch(() => {});
+      if (audioContext && audioContext.state !== "closed") {
+        audioContext.close().catch(() => {});
+      }
       setError(
         err instanceof Error ? err.message : "Failed to start recording"
       );
       return false;
     }
-  }, [onTranscription]);
+  }, [
+    sourceLanguage,
+    languageCandidates,
+    targetLanguages,
+    realtimeTranslation,
+    captureSource,
+    handleSttEvent,
+    openMicrophoneStream,
+    watchTracks,
+  ]);
 
   const stopRecording = useCallback(async (): Promise<void> => {
     try {
-      // Stop audio processing
-      if (audioProcessorRef.current) {
-        const { source, node, audioContext } = audioProcessorRef.current;
-        if (source) source.disconnect();
-        if (node) node.disconnect();
-        if (audioContext && audioContext.state !== "closed") {
+      // Stop audio processing and the captured streams
+      const processor = audioProcessorRef.current;
+      audioProcessorRef.current = null;
+      appliedInputRef.current = null;
+      if (processor) {
+        const { node, audioContext, mixer, levelMeter, inputs } = processor;
+        Object.values(inputs).forEach(stopInput);
+        await flushWorklet(node);
+        levelMeter.disconnect();
+        mixer.disconnect();
+        node.disconnect();
+        if (audioContext.state !== "closed") {
           await audioContext.close();
         }
       }
 
-      // Stop audio stream
-      if (streamRef.current) {
-        streamRef.current.getTracks().forEach((track) => track.stop());
-        streamRef.current = null;
+      // End the speech-to-text session, waiting for the last finals
+      const session = sessionRef.current;
+      sessionRef.current = null;
+      if (session) {
+        setIsFinishing(true);
+        await session.stop();
       }
-
-      // Send stop signal to WebSocket
-      if (wsRef.current && wsRef.current.readyState === WebSocket.OPEN) {
-        wsRef.current.send(JSON.stringify({ type: "stop_recording" }));
-        wsRef.current.close();
-      }
-
-      setIsConnected(false);
-      audioProcessorRef.current = null;
-      wsRef.current = null;
-      sessionIdRef.current = null;
     } catch (err) {
       console.error("Error stopping recording:", err);
       setError(err instanceof Error ? err.message : "Failed to stop recording");
+    } finally {
+      setIsFinishing(false);
+      setInputNotice(null);
+      setConnectionState((prev) => (prev === "failed" ? prev : "idle"));
+      setPartials(new Map());
     }
   }, []);
 
+  const getAudioLevels = useCallback(
+    (): AudioLevels | null => audioProcessorRef.current?.levelMeter.read() ?? null,
+    []
+  );
+
   return {
     startRecording,
     stopRecording,
-    isConnected,
+    isConnected: connectionState === "connected",
+    connectionState,
+    isFinishing,
     transcription,
+    partialTranscription: Array.from(partials.values()).join(" "),
+    getAudioLevels,
     error,
+    inputNotice,
   };
 };
@@ -0,0 +1,132 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { applyFixedTranslations, findGlossaryEntries } from "@/lib/glossary";
+import type { SttUtterance } from "@/lib/stt";
+import {
+  detectSpeaker,
+  type ConversationTurn,
+  type Speaker,
+} from "@/lib/conversation";
+
+interface UseConversationProps {
+  languageA: string;
+  languageB: string;
+  translateText: (
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    options?: { key?: string }
+  ) => Promise<string | null>;
+  // Aborts in-flight translateText requests
+  cancelTranslations: () => void;
+  // When false, turns are not sent to translateText; translations are
+  // expected to be supplied through setTranslation instead
+  autoTranslate: boolean;
+  // Called once for every turn whose translation arrived
+  onTranslated?: (turn: ConversationTurn) => void;
+}
+
+interface UseConversationReturn {
+  turns: ConversationTurn[];
+  // Add a finalized utterance as a turn of the participant whose language it
+  // is in, or of the given participant when it is known who is talking
+  addUtterance: (utterance: SttUtterance, speaker?: Speaker) => void;
+  setTranslation: (turnId: string, text: string, language: string) => void;
+  reset: () => void;
+}
+
+export const useConversation = ({
+  languageA,
+  languageB,
+  translateText,
+  cancelTranslations,
+  autoTranslate,
+  onTranslated,
+}: UseConversationProps): UseConversationReturn => {
+  const [turns, setTurns] = useState<ConversationTurn[]>([]);
+
+  // Mirrors turns so callbacks see translations applied in the same tick
+  const turnsRef = useRef<ConversationTurn[]>([]);
+  const lastSpeakerRef = useRef<Speaker>("a");
+
+  const propsRef = useRef({ languageA, languageB, autoTranslate, onTranslated });
+  useEffect(() => {
+    propsRef.current = { languageA, languageB, autoTranslate, onTranslated };
+  }, [languageA, languageB, autoTranslate, onTranslated]);
+
+  const updateTurns = useCallback((next: ConversationTurn[]) => {
+    turnsRef.current = next;
+    setTurns(next);
+  }, []);
+
+  const applyTranslation = useCallback(
+    (turnId: string, text: string) => {
+      const turn = turnsRef.current.find((item) => item.id === turnId);
+      if (!turn || turn.translation !== null) return;
+
+      const translated = { ...turn, translation: text };
+      updateTurns(
+        turnsRef.current.map((item) => (item.id === turnId ? translated : item))
+      );
+      if (text) propsRef.current.onTranslated?.(translated);
+    },
+    [updateTurns]
+  );
+
+  const addUtterance = useCallback(
+    (utterance: SttUtterance, knownSpeaker?: Speaker) => {
+      const { languageA, languageB, autoTranslate } = propsRef.current;
+      const speaker =
+        knownSpeaker ??
+        detectSpeaker(
+          utterance.language,
+          languageA,
+          languageB,
+          lastSpeakerRef.current
+        );
+      lastSpeakerRef.current = speaker;
+
+      const turn: ConversationTurn = {
+        id: utterance.id,
+        speaker,
+        text: utterance.text,
+        language: speaker === "a" ? languageA : languageB,
+        translationLanguage: speaker === "a" ? languageB : languageA,
+        translation: null,
+        start: utterance.start,
+      };
+      updateTurns([...turnsRef.current, turn]);
+
+      if (!autoTranslate) return;
+      translateText(turn.text, turn.language, turn.translationLanguage, {
+        key: `turn:${turn.id}`,
+      }).then((translated) => {
+        // Failed turns are recorded as empty so they stop showing as pending
+        applyTranslation(turn.id, translated ?? "");
+      });
+    },
+    [translateText, applyTranslation, updateTurns]
+  );
+
+  const setTranslation = useCallback(
+    (turnId: string, text: string, language: string) => {
+      // Engines translating into both languages also return the useless one
+      const turn = turnsRef.current.find((item) => item.id === turnId);
+      if (turn?.translationLanguage === language) {
+        // translateText applies the glossary, the engine does not
+        applyTranslation(
+          turnId,
+          applyFixedTranslations(text, findGlossaryEntries(turn.text), language)
+        );
+      }
+    },
+    [applyTranslation]
+  );
+
+  const reset = useCallback(() => {
+    cancelTranslations();
+    lastSpeakerRef.current = "a";
+    updateTurns([]);
+  }, [cancelTranslations, updateTurns]);
+
+  return { turns, addUtterance, setTranslation, reset };
+};
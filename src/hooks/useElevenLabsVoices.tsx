@@ -0,0 +1,47 @@
+import { useState, useCallback, useEffect, useRef } from "react";
+import { fetchElevenLabsVoices, type ElevenLabsVoice } from "@/lib/tts/voices";
+
+interface UseElevenLabsVoicesReturn {
+  voices: ElevenLabsVoice[];
+  isLoading: boolean;
+  error: string | null;
+  // Reload the voice list with the given key
+  refresh: (apiKey: string) => Promise<void>;
+}
+
+export const useElevenLabsVoices = (): UseElevenLabsVoicesReturn => {
+  const [voices, setVoices] = useState<ElevenLabsVoice[]>([]);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const refresh = useCallback(async (apiKey: string) => {
+    controllerRef.current?.abort();
+
+    if (!apiKey) {
+      setVoices([]);
+      setError(null);
+      return;
+    }
+
+    const controller = new AbortController();
+    controllerRef.current = controller;
+    setIsLoading(true);
+    setError(null);
+
+    try {
+      setVoices(await fetchElevenLabsVoices(apiKey, controller.signal));
+    } catch (err) {
+      if (controller.signal.aborted) return;
+      console.error("Error loading ElevenLabs voices:", err);
+      setError(err instanceof Error ? err.message : "Loading voices failed");
+    } finally {
+      if (controllerRef.current === controller) setIsLoading(false);
+    }
+  }, []);
+
+  useEffect(() => () => controllerRef.current?.abort(), []);
+
+  return { voices, isLoading, error, refresh };
+};
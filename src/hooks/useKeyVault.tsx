@@ -0,0 +1,30 @@
+import { useState, useEffect } from "react";
+import {
+  getSecretStorage,
+  isVaultLocked,
+  subscribeToSecrets,
+  type SecretStorage,
+} from "@/lib/secrets";
+
+interface UseKeyVaultReturn {
+  storage: SecretStorage;
+  isLocked: boolean;
+}
+
+// Re-renders when the key storage changes or the vault is unlocked
+export const useKeyVault = (): UseKeyVaultReturn => {
+  const [state, setState] = useState(() => ({
+    storage: getSecretStorage(),
+    isLocked: isVaultLocked(),
+  }));
+
+  useEffect(
+    () =>
+      subscribeToSecrets(() =>
+        setState({ storage: getSecretStorage(), isLocked: isVaultLocked() })
+      ),
+    []
+  );
+
+  return state;
+};
@@ -0,0 +1,148 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { streamChatCompletion } from "@/lib/llm";
+import {
+  buildSummaryMessages,
+  parseMeetingNotes,
+  type MeetingSummary,
+} from "@/lib/summary";
+import type { TranscriptSegment } from "@/lib/transcript";
+
+// Up to this length the final summary is made from the whole transcript
+// instead of by updating the rolling summary
+const FULL_TRANSCRIPT_MAX_CHARS = 30000;
+
+interface UseMeetingSummaryProps {
+  segments: TranscriptSegment[];
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Number of new finalized segments that triggers a new rolling summary
+  interval: number;
+  // The rolling summary runs while recording; the final one when it stops
+  isRecording: boolean;
+  enabled: boolean;
+}
+
+interface UseMeetingSummaryReturn {
+  summary: MeetingSummary | null;
+  isSummarizing: boolean;
+  error: string | null;
+}
+
+export const useMeetingSummary = ({
+  segments,
+  sourceLanguage,
+  targetLanguage,
+  interval,
+  isRecording,
+  enabled,
+}: UseMeetingSummaryProps): UseMeetingSummaryReturn => {
+  const [summary, setSummary] = useState<MeetingSummary | null>(null);
+  const [isSummarizing, setIsSummarizing] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const summaryRef = useRef<MeetingSummary | null>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+  const wasRecordingRef = useRef(false);
+  // Segment count the last rolling summary was requested at, so a failed
+  // request is only retried once more segments arrived
+  const requestedCountRef = useRef(0);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsSummarizing(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const summarize = useCallback(
+    async (covered: TranscriptSegment[], isFinal: boolean) => {
+      cancel();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsSummarizing(true);
+      setError(null);
+
+      const fromScratch =
+        isFinal &&
+        covered.reduce((length, segment) => length + segment.text.length, 0) <=
+          FULL_TRANSCRIPT_MAX_CHARS;
+      const previous = fromScratch ? null : summaryRef.current;
+
+      try {
+        const reply = await streamChatCompletion(
+          buildSummaryMessages({
+            segments: covered
+              .slice(previous?.segmentCount ?? 0)
+              .map((segment) => segment.text),
+            previous: previous?.source,
+            sourceLanguage,
+            targetLanguage,
+            isFinal,
+          }),
+          { signal: controller.signal }
+        );
+        if (controller.signal.aborted) return;
+
+        const next: MeetingSummary = {
+          ...parseMeetingNotes(reply),
+          sourceLanguage,
+          targetLanguage,
+          segmentCount: covered.length,
+          isFinal,
+        };
+        summaryRef.current = next;
+        setSummary(next);
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Summary error:", err);
+        setError(err instanceof Error ? err.message : "Summary failed");
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsSummarizing(false);
+        }
+      }
+    },
+    [sourceLanguage, targetLanguage, cancel]
+  );
+
+  // A new recording starts a new summary; a stopped one gets its final summary
+  useEffect(() => {
+    const wasRecording = wasRecordingRef.current;
+    wasRecordingRef.current = isRecording;
+
+    if (isRecording && !wasRecording) {
+      cancel();
+      summaryRef.current = null;
+      requestedCountRef.current = 0;
+      setSummary(null);
+      setError(null);
+    } else if (!isRecording && wasRecording && enabled && segments.length > 0) {
+      summarize(segments, true);
+    }
+  }, [isRecording, enabled, segments, summarize, cancel]);
+
+  // Rolling summary every `interval` new segments, one request at a time
+  useEffect(() => {
+    if (!enabled || !isRecording || isSummarizing) return;
+    const covered = summary?.segmentCount ?? 0;
+    if (
+      segments.length - covered >= interval &&
+      segments.length !== requestedCountRef.current
+    ) {
+      requestedCountRef.current = segments.length;
+      summarize(segments, false);
+    }
+  }, [
+    enabled,
+    isRecording,
+    isSummarizing,
+    summary,
+    segments,
+    interval,
+    summarize,
+  ]);
+
+  return { summary, isSummarizing, error };
+};
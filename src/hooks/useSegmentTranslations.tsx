@@ -0,0 +1,359 @@
+import { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { applyFixedTranslations, findGlossaryEntries } from "@/lib/glossary";
+import {
+  assembleTranslatedText,
+  countTranslatedSegments,
+  joinTextChunks,
+  type TranscriptSegment,
+} from "@/lib/transcript";
+
+export interface TargetTranslation {
+  translations: Record<string, string>;
+  translatedText: string;
+  // Languages the translations were made for; a new object every time the
+  // cache of this target is invalidated by a language change
+  translatedLanguages: { source: string; target: string };
+  // Number of segments, from the start, included in translatedText
+  translatedCount: number;
+  // Translations still being generated for the segments after translatedText
+  streamingText: string;
+  // Segments left untranslated after every retry failed
+  failedCount: number;
+}
+
+// Preceding segments sent along with each segment, for providers that use context
+const CONTEXT_SEGMENTS = 3;
+
+// A failed segment is sent again after a delay, up to this many times in all;
+// then it is skipped so the segments after it are not held back
+const MAX_TRANSLATION_ATTEMPTS = 3;
+const RETRY_DELAY_MS = 2000;
+// Without autoTranslate, a segment whose translation has not been supplied by
+// then is skipped the same way, e.g. when the connection dropped before it
+const SUPPLIED_TRANSLATION_TIMEOUT_MS = 10000;
+
+interface UseSegmentTranslationsProps {
+  segments: TranscriptSegment[];
+  sourceLanguage: string;
+  targetLanguages: string[];
+  translateToTargets: (
+    text: string,
+    sourceLanguage: string,
+    targetLanguages: string[],
+    options?: {
+      key?: string;
+      context?: string[];
+      onPartial?: (language: string, text: string) => void;
+      signal?: AbortSignal;
+    }
+  ) => Promise<Record<string, string> | null>;
+  // When false, segments are not sent to translateToTargets; translations are
+  // expected to be supplied through setTranslation instead
+  autoTranslate: boolean;
+}
+
+interface UseSegmentTranslationsReturn {
+  // Translations of the transcript, by target language
+  targets: Record<string, TargetTranslation>;
+  setTranslation: (segmentId: string, text: string, language: string) => void;
+  reset: () => void;
+}
+
+export const useSegmentTranslations = ({
+  segments,
+  sourceLanguage,
+  targetLanguages,
+  translateToTargets,
+  autoTranslate,
+}: UseSegmentTranslationsProps): UseSegmentTranslationsReturn => {
+  // Segment translations by target language, then by segment id
+  const [translations, setTranslations] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  // Partial translations while they stream in, in the same shape
+  const [streaming, setStreaming] = useState<
+    Record<string, Record<string, string>>
+  >({});
+  const [translatedLanguages, setTranslatedLanguages] = useState<
+    Record<string, { source: string; target: string }>
+  >({});
+  // Ids of the segments skipped after failing, by target language
+  const [failed, setFailed] = useState<Record<string, string[]>>({});
+  // Bumped to send failed segments again
+  const [retryCount, setRetryCount] = useState(0);
+
+  // Segment ids already sent for translation, by target language, so each
+  // segment is translated once into each target
+  const requestedIdsRef = useRef<Map<string, Set<string>>>(new Map());
+  // Failed attempts by target language and segment id
+  const attemptsRef = useRef<Map<string, number>>(new Map());
+  // Target language and segment id of the segments skipped after failing,
+  // whose translation is ignored if it still arrives
+  const skippedRef = useRef<Set<string>>(new Set());
+  // Target language and segment id of the supplied translations being waited for
+  const deadlinesRef = useRef<Map<string, ReturnType<typeof setTimeout>>>(
+    new Map()
+  );
+  // Incremented on reset so results for a discarded cache are ignored
+  const generationRef = useRef(0);
+  // Aborts the requests of the current cache, and no one else's
+  const controllerRef = useRef(new AbortController());
+
+  const reset = useCallback(() => {
+    controllerRef.current.abort();
+    controllerRef.current = new AbortController();
+    generationRef.current++;
+    requestedIdsRef.current = new Map();
+    attemptsRef.current = new Map();
+    skippedRef.current = new Set();
+    deadlinesRef.current.forEach(clearTimeout);
+    deadlinesRef.current = new Map();
+    setTranslations({});
+    setStreaming({});
+    setFailed({});
+  }, []);
+
+  useEffect(
+    () => () => {
+      controllerRef.current.abort();
+      deadlinesRef.current.forEach(clearTimeout);
+    },
+    []
+  );
+
+  const storeTranslation = useCallback(
+    (segmentId: string, text: string, language: string) => {
+      setTranslations((prev) => ({
+        ...prev,
+        [language]: { ...prev[language], [segmentId]: text },
+      }));
+    },
+    []
+  );
+
+  // Latest segments, for the source text of supplied translations
+  const segmentsRef = useRef(segments);
+  segmentsRef.current = segments;
+
+  // Supplied translations come from the engine, which does not apply the
+  // glossary's fixed translations like translateToTargets does
+  const setTranslation = useCallback(
+    (segmentId: string, text: string, language: string) => {
+      if (skippedRef.current.has(`${language}:${segmentId}`)) return;
+      const segment = segmentsRef.current.find(({ id }) => id === segmentId);
+      storeTranslation(
+        segmentId,
+        segment
+          ? applyFixedTranslations(
+              text,
+              findGlossaryEntries(segment.text),
+              language
+            )
+          : text,
+        language
+      );
+    },
+    [storeTranslation]
+  );
+
+  // Recorded as empty so later segments still show
+  const skipSegment = useCallback(
+    (segmentId: string, language: string) => {
+      skippedRef.current.add(`${language}:${segmentId}`);
+      storeTranslation(segmentId, "", language);
+      setFailed((prev) => ({
+        ...prev,
+        [language]: [...(prev[language] ?? []), segmentId],
+      }));
+    },
+    [storeTranslation]
+  );
+
+  // Cached translations are only valid for the source language they were made from
+  useEffect(() => {
+    reset();
+    setTranslatedLanguages({});
+  }, [sourceLanguage, reset]);
+
+  // Targets that were added start with an empty cache; removed ones are dropped
+  const targetsKey = targetLanguages.join(",");
+  useEffect(() => {
+    const targets = targetsKey ? targetsKey.split(",") : [];
+    requestedIdsRef.current.forEach((_, target) => {
+      if (!targets.includes(target)) requestedIdsRef.current.delete(target);
+    });
+    const keepTargets = <T,>(prev: Record<string, T>) =>
+      Object.fromEntries(
+        Object.entries(prev).filter(([target]) => targets.includes(target))
+      );
+    setTranslations(keepTargets);
+    setStreaming(keepTargets);
+    setFailed(keepTargets);
+    setTranslatedLanguages((prev) =>
+      Object.fromEntries(
+        targets.map((target) => [
+          target,
+          prev[target] ?? { source: sourceLanguage, target },
+        ])
+      )
+    );
+  }, [targetsKey, sourceLanguage]);
+
+  useEffect(() => {
+    if (!autoTranslate) return;
+
+    const requested = requestedIdsRef.current;
+    segments.forEach((segment, index) => {
+      // One batched request per segment for the targets still missing it
+      const missing = targetLanguages.filter(
+        (target) => !requested.get(target)?.has(segment.id)
+      );
+      if (missing.length === 0) return;
+      missing.forEach((target) => {
+        if (!requested.has(target)) requested.set(target, new Set());
+        requested.get(target)!.add(segment.id);
+      });
+
+      const generation = generationRef.current;
+      translateToTargets(segment.text, sourceLanguage, missing, {
+        key: `${missing.join(",")}:${segment.id}`,
+        signal: controllerRef.current.signal,
+        context: segments
+          .slice(Math.max(0, index - CONTEXT_SEGMENTS), index)
+          .map((previous) => previous.text),
+        onPartial: (target, text) => {
+          if (generation !== generationRef.current) return;
+          setStreaming((prev) => ({
+            ...prev,
+            [target]: { ...prev[target], [segment.id]: text },
+          }));
+        },
+      }).then((translated) => {
+        // Ignore results that belong to a cache that has since been reset
+        if (generation !== generationRef.current) return;
+        missing.forEach((target) => {
+          const text = translated?.[target];
+          if (text !== undefined) {
+            storeTranslation(segment.id, text, target);
+            return;
+          }
+
+          const attemptKey = `${target}:${segment.id}`;
+          const attempts = (attemptsRef.current.get(attemptKey) ?? 0) + 1;
+          attemptsRef.current.set(attemptKey, attempts);
+          if (attempts < MAX_TRANSLATION_ATTEMPTS) {
+            requested.get(target)?.delete(segment.id);
+            setTimeout(() => {
+              if (generation === generationRef.current) {
+                setRetryCount((count) => count + 1);
+              }
+            }, RETRY_DELAY_MS);
+          } else {
+            skipSegment(segment.id, target);
+          }
+        });
+        setStreaming((prev) =>
+          Object.fromEntries(
+            Object.entries(prev).map(([target, texts]) => {
+              const { [segment.id]: _done, ...rest } = texts;
+              return [target, rest];
+            })
+          )
+        );
+      });
+    });
+  }, [
+    segments,
+    sourceLanguage,
+    targetLanguages,
+    translateToTargets,
+    autoTranslate,
+    storeTranslation,
+    skipSegment,
+    retryCount,
+  ]);
+
+  // Latest translations, for the deadlines below to check when they expire
+  const translationsRef = useRef(translations);
+  translationsRef.current = translations;
+
+  useEffect(() => {
+    if (autoTranslate) return;
+
+    const generation = generationRef.current;
+    segments.forEach((segment) =>
+      targetLanguages.forEach((target) => {
+        const key = `${target}:${segment.id}`;
+        if (
+          deadlinesRef.current.has(key) ||
+          translations[target]?.[segment.id] !== undefined
+        ) {
+          return;
+        }
+        deadlinesRef.current.set(
+          key,
+          setTimeout(() => {
+            if (generation !== generationRef.current) return;
+            if (translationsRef.current[target]?.[segment.id] === undefined) {
+              skipSegment(segment.id, target);
+            }
+          }, SUPPLIED_TRANSLATION_TIMEOUT_MS)
+        );
+      })
+    );
+  }, [segments, targetLanguages, translations, autoTranslate, skipSegment]);
+
+  const targets = useMemo(
+    () =>
+      Object.fromEntries(
+        targetLanguages.map((target) => {
+          const targetTranslations = translations[target] ?? {};
+          const targetStreaming = streaming[target] ?? {};
+          const translatedCount = countTranslatedSegments(
+            segments,
+            targetTranslations
+          );
+
+          // Contiguous run of segments, after the translated ones, whose
+          // translation is done or has started streaming
+          const pending: string[] = [];
+          for (const segment of segments.slice(translatedCount)) {
+            const text =
+              targetTranslations[segment.id] ?? targetStreaming[segment.id];
+            if (text === undefined) break;
+            pending.push(text);
+          }
+
+          return [
+            target,
+            {
+              translations: targetTranslations,
+              translatedText: assembleTranslatedText(segments, targetTranslations),
+              translatedLanguages: translatedLanguages[target] ?? {
+                source: sourceLanguage,
+                target,
+              },
+              translatedCount,
+              streamingText: joinTextChunks(pending),
+              failedCount: failed[target]?.length ?? 0,
+            },
+          ];
+        })
+      ),
+    [
+      segments,
+      translations,
+      streaming,
+      failed,
+      translatedLanguages,
+      targetLanguages,
+      sourceLanguage,
+    ]
+  );
+
+  return {
+    targets,
+    setTranslation,
+    reset,
+  };
+};
@@ -0,0 +1,257 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import type { SpeechOptions } from "@/hooks/useTextToSpeech";
+import type { PreparedSpeech } from "@/lib/tts";
+
+interface UseSpeechQueueProps {
+  prepareSpeech: (
+    text: string,
+    language: string,
+    options?: SpeechOptions
+  ) => Promise<PreparedSpeech>;
+}
+
+interface UseSpeechQueueReturn {
+  enqueue: (text: string, language: string) => void;
+  // Stop the current sentence and continue with the next one
+  skip: () => void;
+  // Stop playback and drop every queued sentence
+  clear: () => void;
+  pause: () => void;
+  resume: () => void;
+  // Sentences waiting to be played, not counting the current one
+  queueLength: number;
+  // Sentence playing, or waiting for its audio while isPreparing
+  currentText: string | null;
+  isPreparing: boolean;
+  // Time to first audio byte of the current sentence, in milliseconds
+  currentFirstByteMs: number | null;
+  isSpeaking: boolean;
+  isPaused: boolean;
+  error: string | null;
+}
+
+interface QueueItem {
+  text: string;
+  language: string;
+  controller: AbortController;
+  // Audio of the sentence, requested ahead of playback
+  speech: Promise<PreparedSpeech> | null;
+}
+
+// Sentences synthesized ahead of playback, including the one playing
+const PREFETCH_COUNT = 2;
+// Synthesis is retried this many times before a sentence is reported and skipped
+const MAX_SYNTHESIS_RETRIES = 1;
+
+export const useSpeechQueue = ({
+  prepareSpeech,
+}: UseSpeechQueueProps): UseSpeechQueueReturn => {
+  const [queueLength, setQueueLength] = useState(0);
+  const [currentText, setCurrentText] = useState<string | null>(null);
+  const [isPreparing, setIsPreparing] = useState(false);
+  const [currentFirstByteMs, setCurrentFirstByteMs] = useState<number | null>(
+    null
+  );
+  const [isPaused, setIsPaused] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  const queueRef = useRef<QueueItem[]>([]);
+  const currentRef = useRef<{
+    item: QueueItem;
+    speech: PreparedSpeech;
+    // Ends the sentence and moves on to the next one
+    done: () => void;
+  } | null>(null);
+  // True while the head of the queue is waiting for its audio
+  const loadingRef = useRef(false);
+  const isPausedRef = useRef(false);
+
+  const prepareSpeechRef = useRef(prepareSpeech);
+  useEffect(() => {
+    prepareSpeechRef.current = prepareSpeech;
+  }, [prepareSpeech]);
+
+  const syncState = useCallback(() => {
+    const current = currentRef.current;
+    const loading = loadingRef.current ? queueRef.current[0] : undefined;
+    setCurrentText(current?.item.text ?? loading?.text ?? null);
+    setIsPreparing(!current && !!loading);
+    setCurrentFirstByteMs(current?.speech.firstByteMs ?? null);
+    setQueueLength(queueRef.current.length - (current || loadingRef.current ? 1 : 0));
+  }, []);
+
+  const startSynthesis = useCallback((item: QueueItem) => {
+    const attempt = async (retries: number): Promise<PreparedSpeech> => {
+      try {
+        return await prepareSpeechRef.current(item.text, item.language, {
+          signal: item.controller.signal,
+        });
+      } catch (err) {
+        if (item.controller.signal.aborted || retries <= 0) throw err;
+        return attempt(retries - 1);
+      }
+    };
+    item.speech = attempt(MAX_SYNTHESIS_RETRIES);
+    // Failures are handled when the item reaches the head of the queue
+    item.speech.catch(() => {});
+  }, []);
+
+  const pump = useCallback(() => {
+    const queue = queueRef.current;
+
+    queue
+      .slice(0, PREFETCH_COUNT)
+      .forEach((item) => item.speech || startSynthesis(item));
+
+    if (currentRef.current || loadingRef.current || isPausedRef.current) {
+      syncState();
+      return;
+    }
+
+    const item = queue[0];
+    if (!item) {
+      syncState();
+      return;
+    }
+
+    loadingRef.current = true;
+    syncState();
+
+    const finish = () => {
+      if (queueRef.current[0] === item) queueRef.current.shift();
+      currentRef.current = null;
+      loadingRef.current = false;
+      pump();
+    };
+
+    item.speech!.then(
+      (speech) => {
+        // The queue was cleared while the audio was being synthesized
+        if (queueRef.current[0] !== item) {
+          speech.release();
+          return;
+        }
+
+        let isDone = false;
+        const done = () => {
+          if (isDone) return;
+          isDone = true;
+          speech.release();
+          if (currentRef.current?.item === item) finish();
+        };
+        speech.ended.then(done, () => {
+          setError(`Audio playback failed: "${item.text}"`);
+          done();
+        });
+
+        currentRef.current = { item, speech, done };
+        loadingRef.current = false;
+        syncState();
+
+        if (!isPausedRef.current) {
+          speech.play().catch((err) => {
+            console.error("Text-to-speech playback error:", err);
+            setError(err instanceof Error ? err.message : "Audio playback failed");
+            done();
+          });
+        }
+      },
+      (err) => {
+        if (queueRef.current[0] !== item) return;
+        console.error("Text-to-speech error:", err);
+        // Report the sentence instead of silently dropping it
+        setError(
+          `Could not speak "${item.text}": ${
+            err instanceof Error ? err.message : "Text-to-speech failed"
+          }`
+        );
+        finish();
+      }
+    );
+  }, [startSynthesis, syncState]);
+
+  const enqueue = useCallback(
+    (text: string, language: string) => {
+      if (!text.trim()) return;
+      setError(null);
+      queueRef.current.push({
+        text,
+        language,
+        controller: new AbortController(),
+        speech: null,
+      });
+      pump();
+    },
+    [pump]
+  );
+
+  const skip = useCallback(() => {
+    const current = currentRef.current;
+    if (current) {
+      current.done();
+      return;
+    }
+
+    // The head sentence is still being synthesized: drop it and move on
+    const loading = loadingRef.current ? queueRef.current[0] : undefined;
+    if (loading) {
+      loading.controller.abort();
+      queueRef.current.shift();
+      loadingRef.current = false;
+      pump();
+    }
+  }, [pump]);
+
+  const clear = useCallback(() => {
+    const queue = queueRef.current;
+    queueRef.current = [];
+    queue.forEach((item) => {
+      item.controller.abort();
+      item.speech?.then(
+        (speech) => speech.release(),
+        () => {}
+      );
+    });
+    currentRef.current?.speech.release();
+    currentRef.current = null;
+    loadingRef.current = false;
+    syncState();
+  }, [syncState]);
+
+  const pause = useCallback(() => {
+    isPausedRef.current = true;
+    setIsPaused(true);
+    currentRef.current?.speech.pause();
+  }, []);
+
+  const resume = useCallback(() => {
+    isPausedRef.current = false;
+    setIsPaused(false);
+    const current = currentRef.current;
+    if (current) {
+      current.speech.play().catch((err) => {
+        console.error("Text-to-speech playback error:", err);
+        skip();
+      });
+    } else {
+      pump();
+    }
+  }, [pump, skip]);
+
+  useEffect(() => clear, [clear]);
+
+  return {
+    enqueue,
+    skip,
+    clear,
+    pause,
+    resume,
+    queueLength,
+    currentText,
+    currentFirstByteMs,
+    isSpeaking: currentText !== null && !isPaused && !isPreparing,
+    isPreparing,
+    isPaused,
+    error,
+  };
+};
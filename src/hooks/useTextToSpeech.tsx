@@ -1,105 +1,119 @@
-import { useState, useCallback } from "react";
+import { useState, useCallback, useRef } from "react";
+import {
+  FALLBACK_TTS_PROVIDER,
+  getSelectedTtsProvider,
+  getTtsProvider,
+  type PreparedSpeech,
+  type TtsSpeechOptions,
+} from "@/lib/tts";
+
+export interface SpeechOptions extends TtsSpeechOptions {
+  // Speak with exactly this provider, without falling back, e.g. for previews
+  providerId?: string;
+}
 
 interface UseTextToSpeechReturn {
-  speak: (text: string, language: string) => Promise<void>;
+  speak: (
+    text: string,
+    language: string,
+    options?: SpeechOptions
+  ) => Promise<void>;
+  // Request the audio for a text without playing it
+  prepareSpeech: (
+    text: string,
+    language: string,
+    options?: SpeechOptions
+  ) => Promise<PreparedSpeech>;
   isSpeaking: boolean;
   error: string | null;
+  // Why the fallback provider is speaking instead of the selected one
+  fallbackReason: string | null;
 }
 
-// Language code mapping for ElevenLabs voices
-const VOICE_MAPPING: { [key: string]: string } = {
-  en: "9BWtsMINqrJLrRacOk9x", // Aria
-  es: "EXAVITQu4vr4xnSDxMaL", // Sarah
-  fr: "FGY2WhTYpPnrIDTdsKH5", // Laura
-  de: "CwhRBWXzGAHq8TQ4Fs17", // Roger
-  it: "IKne3meq5aSn9XLyUdCD", // Charlie
-  pt: "TX3LPaxmHKxFdv7VOQHJ", // Liam
-  ru: "N2lVS1w4EtoT3dr4eOWO", // Callum
-  ja: "SAz9YHcvj6GT2YYXdXww", // River
-  ko: "JBFqnCBsd6RMkjVDRZzb", // George
-  zh: "XB0fDUnXU5powFXDhCwa", // Charlotte
-  ar: "Xb7hH8MSUJpSbSDYk0k2", // Alice
-  hi: "XrExE9yKIg1WjnnlVkGX", // Matilda
-  default: "9BWtsMINqrJLrRacOk9x", // Aria (English)
-};
+// After a failure the selected provider is skipped for this long, so an outage
+// does not delay every sentence by a failing request
+const FALLBACK_COOLDOWN_MS = 60000;
 
 export const useTextToSpeech = (): UseTextToSpeechReturn => {
   const [isSpeaking, setIsSpeaking] = useState(false);
   const [error, setError] = useState<string | null>(null);
+  const [fallbackReason, setFallbackReason] = useState<string | null>(null);
+
+  const fallbackUntilRef = useRef(0);
+
+  const prepareSpeech = useCallback(
+    async (
+      text: string,
+      language: string,
+      { providerId, ...options }: SpeechOptions = {}
+    ): Promise<PreparedSpeech> => {
+      if (providerId) {
+        return getTtsProvider(providerId).prepareSpeech(text, language, options);
+      }
+
+      const provider = getSelectedTtsProvider();
+      const fallback = FALLBACK_TTS_PROVIDER;
+      if (provider === fallback || !fallback.isConfigured()) {
+        return provider.prepareSpeech(text, language, options);
+      }
+
+      if (!provider.isConfigured()) {
+        setFallbackReason(`${provider.name} is not configured`);
+      } else if (Date.now() >= fallbackUntilRef.current) {
+        try {
+          const speech = await provider.prepareSpeech(text, language, options);
+          setFallbackReason(null);
+          return speech;
+        } catch (err) {
+          if (options.signal?.aborted) throw err;
+          console.error("Text-to-speech error, falling back:", err);
+          fallbackUntilRef.current = Date.now() + FALLBACK_COOLDOWN_MS;
+          setFallbackReason(
+            err instanceof Error ? err.message : `${provider.name} failed`
+          );
+        }
+      }
+
+      return fallback.prepareSpeech(text, language, options);
+    },
+    []
+  );
 
   const speak = useCallback(
-    async (text: string, language: string): Promise<void> => {
+    async (
+      text: string,
+      language: string,
+      options?: SpeechOptions
+    ): Promise<void> => {
       if (!text.trim()) return;
 
       setIsSpeaking(true);
       setError(null);
 
       try {
-        const elevenlabsKey = localStorage.getItem("elevenlabs_api_key");
-
-        if (!elevenlabsKey) {
-          setError("ElevenLabs API key not configured");
-          return;
-        }
+        const speech = await prepareSpeech(text, language, options);
 
-        const voiceId = VOICE_MAPPING[language] || VOICE_MAPPING["default"];
-        const endpoint = `https://api.elevenlabs.io/v1/text-to-speech/${voiceId}`;
-
-        const response = await fetch(endpoint, {
-          method: "POST",
-          headers: {
-            Accept: "audio/mpeg",
-            "xi-api-key": elevenlabsKey,
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            text,
-            model_id: "eleven_multilingual_v2",
-            voice_settings: {
-              stability: 0.7,
-              similarity_boost: 1.0,
-              style: 1.0,
-              use_speaker_boost: true,
-            },
-          }),
-        });
-
-        if (!response.ok) {
-          throw new Error(`Text-to-speech failed: ${response.statusText}`);
+        try {
+          await speech.play();
+          await speech.ended;
+        } finally {
+          speech.release();
         }
-
-        const audioBlob = await response.blob();
-        const audioUrl = URL.createObjectURL(audioBlob);
-
-        const audio = new Audio(audioUrl);
-
-        return new Promise((resolve, reject) => {
-          audio.onended = () => {
-            URL.revokeObjectURL(audioUrl);
-            setIsSpeaking(false);
-            resolve();
-          };
-
-          audio.onerror = () => {
-            URL.revokeObjectURL(audioUrl);
-            setIsSpeaking(false);
-            reject(new Error("Audio playback failed"));
-          };
-
-          audio.play().catch(reject);
-        });
       } catch (err) {
         console.error("Text-to-speech error:", err);
         setError(err instanceof Error ? err.message : "Text-to-speech failed");
+      } finally {
         setIsSpeaking(false);
       }
     },
-    []
+    [prepareSpeech]
   );
 
   return {
     speak,
+    prepareSpeech,
     isSpeaking,
     error,
+    fallbackReason,
   };
 };
@@ -0,0 +1,96 @@
+import { useState, useRef, useCallback, useEffect } from "react";
+import { streamChatCompletion } from "@/lib/llm";
+import {
+  buildQuestionMessages,
+  type TranscriptQuestion,
+} from "@/lib/questions";
+import type { TranscriptSegment } from "@/lib/transcript";
+
+interface UseTranscriptQuestionsProps {
+  segments: TranscriptSegment[];
+  // Translations of the segments by target language, then by segment id
+  translations: Record<string, Record<string, string>>;
+}
+
+interface UseTranscriptQuestionsReturn {
+  questions: TranscriptQuestion[];
+  isAnswering: boolean;
+  ask: (question: string, language: string) => void;
+  clear: () => void;
+}
+
+export const useTranscriptQuestions = ({
+  segments,
+  translations,
+}: UseTranscriptQuestionsProps): UseTranscriptQuestionsReturn => {
+  const [questions, setQuestions] = useState<TranscriptQuestion[]>([]);
+  const [isAnswering, setIsAnswering] = useState(false);
+
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort();
+    controllerRef.current = null;
+    setIsAnswering(false);
+  }, []);
+
+  useEffect(() => cancel, [cancel]);
+
+  const updateQuestion = (id: string, update: Partial<TranscriptQuestion>) =>
+    setQuestions((prev) =>
+      prev.map((item) => (item.id === id ? { ...item, ...update } : item))
+    );
+
+  const ask = useCallback(
+    async (question: string, language: string) => {
+      cancel();
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setIsAnswering(true);
+
+      const id = crypto.randomUUID();
+      setQuestions((prev) => [
+        ...prev,
+        { id, question, answer: null, language },
+      ]);
+
+      try {
+        const answer = await streamChatCompletion(
+          buildQuestionMessages({
+            question,
+            segments,
+            translations: translations[language] ?? {},
+            answerLanguage: language,
+            history: questions,
+          }),
+          {
+            signal: controller.signal,
+            onText: (answer) => updateQuestion(id, { answer }),
+          }
+        );
+        if (!answer.trim()) {
+          updateQuestion(id, { error: "The LLM returned no answer" });
+        }
+      } catch (err) {
+        if (controller.signal.aborted) return;
+        console.error("Question error:", err);
+        updateQuestion(id, {
+          error: err instanceof Error ? err.message : "No answer",
+        });
+      } finally {
+        if (controllerRef.current === controller) {
+          controllerRef.current = null;
+          setIsAnswering(false);
+        }
+      }
+    },
+    [segments, translations, questions, cancel]
+  );
+
+  const clear = useCallback(() => {
+    cancel();
+    setQuestions([]);
+  }, [cancel]);
+
+  return { questions, isAnswering, ask, clear };
+};
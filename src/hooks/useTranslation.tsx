@@ -1,72 +1,234 @@
+import { useState, useCallback, useRef, useEffect } from 'react';
+import {
+  applyFixedTranslations,
+  findGlossaryEntries,
+  markGlossaryTerms,
+} from '@/lib/glossary';
+import { isLlmConfigured, loadLlmSettings, streamChatCompletion } from '@/lib/llm';
+import { getSecret } from '@/lib/secrets';
+import { getSelectedTranslationProviderId } from '@/lib/translation';
+import { buildTranslationMessages } from '@/lib/translation/llm';
 
-import { useState, useCallback } from 'react';
+interface TranslateOptions {
+  // Requests sharing a key supersede each other: a newer request aborts the older one
+  key?: string;
+  // Preceding transcript segments, used as context by the LLM provider
+  context?: string[];
+  // Receives each target's translation so far while it streams in; only the
+  // LLM provider streams
+  onPartial?: (language: string, text: string) => void;
+  // Aborts this request only, unlike cancelAll
+  signal?: AbortSignal;
+}
 
 interface UseTranslationReturn {
-  translateText: (text: string, sourceLanguage: string, targetLanguage: string) => Promise<string | null>;
+  translateText: (
+    text: string,
+    sourceLanguage: string,
+    targetLanguage: string,
+    options?: TranslateOptions
+  ) => Promise<string | null>;
+  // Translate into several languages with one request; resolves to the
+  // translations by language code
+  translateToTargets: (
+    text: string,
+    sourceLanguage: string,
+    targetLanguages: string[],
+    options?: TranslateOptions
+  ) => Promise<Record<string, string> | null>;
+  // Abort every in-flight request; their promises resolve to null
+  cancelAll: () => void;
   isTranslating: boolean;
   error: string | null;
 }
 
+interface PendingRequest {
+  controller: AbortController;
+  key?: string;
+}
+
+// The Translator API takes one to= parameter per target language and returns
+// the translations in that order
+const requestAzureTranslations = async (
+  text: string,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  signal: AbortSignal
+): Promise<Record<string, string>> => {
+  const azureKey = getSecret('azure_api_key');
+  const azureRegion = localStorage.getItem('azure_region') || 'central india';
+
+  // Glossary terms pass through Azure untouched and are then replaced by
+  // their fixed translation, if the glossary has one for the target
+  const marked = markGlossaryTerms(text);
+
+  const targets = targetLanguages.map((language) => `&to=${language}`).join('');
+  const endpoint =
+    sourceLanguage == "Auto-Detect"
+      ? `https://api.cognitive.microsofttranslator.com/translate?api-version=3.0${targets}`
+      : `https://api.cognitive.microsofttranslator.com/translate?api-version=3.0&from=${sourceLanguage}${targets}`;
+
+  const response = await fetch(endpoint, {
+    method: 'POST',
+    headers: {
+      'Ocp-Apim-Subscription-Key': azureKey,
+      'Ocp-Apim-Subscription-Region': azureRegion,
+      'Content-Type': 'application/json',
+    },
+    body: JSON.stringify([{ text: marked.text }]),
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Translation failed: ${response.statusText}`);
+  }
+
+  const result = await response.json();
+  const translations = result?.[0]?.translations;
+  if (!Array.isArray(translations) || translations.length !== targetLanguages.length) {
+    throw new Error('Invalid translation response format');
+  }
+
+  return Object.fromEntries(
+    targetLanguages.map((language, index) => [
+      language,
+      applyFixedTranslations(translations[index].text, marked.entries, language),
+    ])
+  );
+};
+
+// One streamed completion per target language, run in parallel
+const requestLlmTranslations = async (
+  text: string,
+  sourceLanguage: string,
+  targetLanguages: string[],
+  signal: AbortSignal,
+  { context = [], onPartial }: TranslateOptions
+): Promise<Record<string, string>> => {
+  const settings = loadLlmSettings();
+  const glossary = findGlossaryEntries(text);
+
+  const translations = await Promise.all(
+    targetLanguages.map(async (language) => {
+      const messages = buildTranslationMessages({
+        text,
+        sourceLanguage,
+        targetLanguage: language,
+        context,
+        glossary,
+        tone: settings.tone,
+      });
+      const translated = await streamChatCompletion(messages, {
+        signal,
+        settings,
+        onText: (partial) => onPartial?.(language, partial.trim()),
+      });
+      // The model may still have left a term untranslated
+      return [language, applyFixedTranslations(translated.trim(), glossary, language)];
+    })
+  );
+  return Object.fromEntries(translations);
+};
+
 export const useTranslation = (): UseTranslationReturn => {
   const [isTranslating, setIsTranslating] = useState(false);
   const [error, setError] = useState<string | null>(null);
 
-  const translateText = useCallback(async (
+  // Monotonic sequence id assigned to every request
+  const sequenceRef = useRef(0);
+  const pendingRef = useRef<Map<number, PendingRequest>>(new Map());
+  // Latest sequence id issued for each request key
+  const latestByKeyRef = useRef<Map<string, number>>(new Map());
+
+  const cancelAll = useCallback(() => {
+    pendingRef.current.forEach(({ controller }) => controller.abort());
+    latestByKeyRef.current.clear();
+  }, []);
+
+  useEffect(() => cancelAll, [cancelAll]);
+
+  const translateToTargets = useCallback(async (
     text: string,
     sourceLanguage: string,
-    targetLanguage: string
-  ): Promise<string | null> => {
-    if (!text.trim()) return null;
-    
-    setIsTranslating(true);
-    setError(null);
+    targetLanguages: string[],
+    options: TranslateOptions = {}
+  ): Promise<Record<string, string> | null> => {
+    if (!text.trim() || targetLanguages.length === 0) return null;
 
-    try {
-      const azureKey = localStorage.getItem('azure_api_key');
-      const azureRegion = localStorage.getItem('azure_region') || 'central india';
+    const useLlm = getSelectedTranslationProviderId() === 'llm';
+    if (useLlm ? !isLlmConfigured() : !getSecret('azure_api_key')) {
+      setError(useLlm ? 'LLM translation is not configured' : 'Azure API key not configured');
+      return null;
+    }
 
-      if (!azureKey) {
-        setError('Azure API key not configured');
-        return null;
-      }
+    const { key, signal } = options;
+    const sequence = ++sequenceRef.current;
+    const controller = new AbortController();
+    const abort = () => controller.abort();
+    if (signal?.aborted) abort();
+    signal?.addEventListener('abort', abort);
 
-      const endpoint =
-        sourceLanguage == "Auto-Detect"
-          ? `https://api.cognitive.microsofttranslator.com/translate?api-version=3.0&to=${targetLanguage}`
-          : `https://api.cognitive.microsofttranslator.com/translate?api-version=3.0&from=${sourceLanguage}&to=${targetLanguage}`;
-
-      const response = await fetch(endpoint, {
-        method: 'POST',
-        headers: {
-          'Ocp-Apim-Subscription-Key': azureKey,
-          'Ocp-Apim-Subscription-Region': azureRegion,
-          'Content-Type': 'application/json',
-        },
-        body: JSON.stringify([{ text }]),
+    if (key !== undefined) {
+      pendingRef.current.forEach((request) => {
+        if (request.key === key) request.controller.abort();
       });
+      latestByKeyRef.current.set(key, sequence);
+    }
 
-      if (!response.ok) {
-        throw new Error(`Translation failed: ${response.statusText}`);
-      }
+    // A response is stale once it has been aborted or a newer request with its key started
+    const isStale = () =>
+      controller.signal.aborted ||
+      (key !== undefined && latestByKeyRef.current.get(key) !== sequence);
 
-      const result = await response.json();
-      
-      if (result && result[0] && result[0].translations && result[0].translations[0]) {
-        return result[0].translations[0].text;
-      } else {
-        throw new Error('Invalid translation response format');
-      }
+    pendingRef.current.set(sequence, { controller, key });
+    setIsTranslating(true);
+    setError(null);
+
+    try {
+      const translations = useLlm
+        ? await requestLlmTranslations(text, sourceLanguage, targetLanguages, controller.signal, {
+            ...options,
+            // Partial results of a superseded request are dropped too
+            onPartial: options.onPartial && ((language, partial) => {
+              if (!isStale()) options.onPartial(language, partial);
+            }),
+          })
+        : await requestAzureTranslations(text, sourceLanguage, targetLanguages, controller.signal);
+
+      return isStale() ? null : translations;
     } catch (err) {
+      if (isStale()) return null;
+
       console.error('Translation error:', err);
       setError(err instanceof Error ? err.message : 'Translation failed');
       return null;
     } finally {
-      setIsTranslating(false);
+      signal?.removeEventListener('abort', abort);
+      pendingRef.current.delete(sequence);
+      if (key !== undefined && latestByKeyRef.current.get(key) === sequence) {
+        latestByKeyRef.current.delete(key);
+      }
+      setIsTranslating(pendingRef.current.size > 0);
     }
   }, []);
 
+  const translateText = useCallback(
+    async (
+      text: string,
+      sourceLanguage: string,
+      targetLanguage: string,
+      options?: TranslateOptions
+    ): Promise<string | null> => {
+      const result = await translateToTargets(text, sourceLanguage, [targetLanguage], options);
+      return result?.[targetLanguage] ?? null;
+    },
+    [translateToTargets]
+  );
+
   return {
     translateText,
+    translateToTargets,
+    cancelAll,
     isTranslating,
     error,
   };
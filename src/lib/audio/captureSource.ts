@@ -0,0 +1,47 @@
+export type CaptureSource = "microphone" | "tab" | "mixed";
+
+export type CaptureInputKind = "microphone" | "tab";
+
+export type CaptureGains = Record<CaptureInputKind, number>;
+
+export const CAPTURE_SOURCES: { id: CaptureSource; name: string }[] = [
+  { id: "microphone", name: "Microphone" },
+  { id: "tab", name: "Tab/screen audio" },
+  { id: "mixed", name: "Mic + tab mixed" },
+];
+
+export const DEFAULT_CAPTURE_GAINS: CaptureGains = {
+  microphone: 1,
+  tab: 1,
+};
+
+// Inputs that have to be captured for a source selection
+export const getCaptureInputs = (source: CaptureSource): CaptureInputKind[] =>
+  source === "mixed" ? ["microphone", "tab"] : [source];
+
+// Ask the user to share a tab, window or screen together with its audio.
+// Browsers require video to be requested as well; the video track is kept
+// alive because stopping it can end the whole share.
+export const openDisplayAudioStream = async (): Promise<MediaStream> => {
+  if (!navigator.mediaDevices?.getDisplayMedia) {
+    throw new Error("This browser cannot capture tab or screen audio");
+  }
+
+  const stream = await navigator.mediaDevices.getDisplayMedia({
+    video: true,
+    audio: {
+      echoCancellation: false,
+      noiseSuppression: false,
+      autoGainControl: false,
+    },
+  });
+
+  if (stream.getAudioTracks().length === 0) {
+    stream.getTracks().forEach((track) => track.stop());
+    throw new Error(
+      'No audio was shared. Choose a tab and enable "Share tab audio".'
+    );
+  }
+
+  return stream;
+};
@@ -0,0 +1,44 @@
+export interface AudioInputSettings {
+  // Empty string selects the system default input
+  deviceId: string;
+  echoCancellation: boolean;
+  noiseSuppression: boolean;
+  autoGainControl: boolean;
+  // Duration of the PCM frames sent to the engine, 20-100 ms; applies to the next recording
+  frameDurationMs: number;
+}
+
+export const DEFAULT_AUDIO_INPUT_SETTINGS: AudioInputSettings = {
+  deviceId: "",
+  echoCancellation: true,
+  noiseSuppression: true,
+  autoGainControl: true,
+  frameDurationMs: 50,
+};
+
+const STORAGE_KEY = "audio_input_settings";
+
+export const loadAudioInputSettings = (): AudioInputSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return { ...DEFAULT_AUDIO_INPUT_SETTINGS, ...stored };
+  } catch {
+    return DEFAULT_AUDIO_INPUT_SETTINGS;
+  }
+};
+
+export const saveAudioInputSettings = (settings: AudioInputSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const buildAudioConstraints = (
+  settings: AudioInputSettings,
+  sampleRate: number
+): MediaTrackConstraints => ({
+  deviceId: settings.deviceId ? { exact: settings.deviceId } : undefined,
+  sampleRate,
+  channelCount: 1,
+  echoCancellation: settings.echoCancellation,
+  noiseSuppression: settings.noiseSuppression,
+  autoGainControl: settings.autoGainControl,
+});
@@ -0,0 +1,63 @@
+export interface AudioLevels {
+  // Root mean square of the latest waveform, 0..1
+  rms: number;
+  // Absolute peak of the latest waveform, 0..1
+  peak: number;
+  clipping: boolean;
+  // Time-domain samples, -1..1
+  waveform: Float32Array;
+  // Frequency magnitudes, 0..255 per bin
+  frequencies: Uint8Array;
+}
+
+export interface LevelMeter {
+  read: () => AudioLevels;
+  disconnect: () => void;
+}
+
+// Samples at or above this absolute value are treated as clipped
+const CLIP_THRESHOLD = 0.99;
+
+// Taps an audio node with an AnalyserNode so levels can be read on demand,
+// typically once per animation frame.
+export const createLevelMeter = (
+  audioContext: BaseAudioContext,
+  input: AudioNode,
+  fftSize = 256
+): LevelMeter => {
+  const analyser = audioContext.createAnalyser();
+  analyser.fftSize = fftSize;
+  analyser.smoothingTimeConstant = 0.6;
+  input.connect(analyser);
+
+  const waveform = new Float32Array(analyser.fftSize);
+  const frequencies = new Uint8Array(analyser.frequencyBinCount);
+
+  const read = (): AudioLevels => {
+    analyser.getFloatTimeDomainData(waveform);
+    analyser.getByteFrequencyData(frequencies);
+
+    let sumSquares = 0;
+    let peak = 0;
+    for (let i = 0; i < waveform.length; i++) {
+      const sample = Math.abs(waveform[i]);
+      sumSquares += sample * sample;
+      if (sample > peak) peak = sample;
+    }
+
+    return {
+      rms: Math.sqrt(sumSquares / waveform.length),
+      peak,
+      clipping: peak >= CLIP_THRESHOLD,
+      waveform,
+      frequencies,
+    };
+  };
+
+  return {
+    read,
+    disconnect: () => {
+      input.disconnect(analyser);
+    },
+  };
+};
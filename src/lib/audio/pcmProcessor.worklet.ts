@@ -0,0 +1,97 @@
+// AudioWorklet that turns the captured audio into Int16 PCM frames at the
+// sample rate announced to the speech-to-text engine. Runs on the audio
+// rendering thread; loaded through audioWorklet.addModule().
+
+import {
+  PCM_FLUSH_MESSAGE,
+  PCM_FLUSHED_MESSAGE,
+  PCM_PROCESSOR_NAME,
+  type PcmProcessorOptions,
+} from "./pcmProtocol";
+
+// Globals of the AudioWorkletGlobalScope, which the DOM typings do not include
+declare const sampleRate: number;
+declare function registerProcessor(
+  name: string,
+  processorCtor: new (options: AudioWorkletNodeOptions) => AudioWorkletProcessorBase
+): void;
+declare class AudioWorkletProcessorBase {
+  readonly port: MessagePort;
+  constructor(options?: AudioWorkletNodeOptions);
+}
+const AudioWorkletProcessorImpl = (
+  globalThis as unknown as { AudioWorkletProcessor: typeof AudioWorkletProcessorBase }
+).AudioWorkletProcessor;
+
+class PCMProcessor extends AudioWorkletProcessorImpl {
+  private readonly ratio: number;
+  private readonly frame: Int16Array;
+  private frameLength = 0;
+  // Fractional read position into the input, carried across render quanta
+  private position = 0;
+  private previousSample = 0;
+  // One-pole low-pass state, limits aliasing when downsampling
+  private filtered = 0;
+  private readonly filterAlpha: number;
+
+  constructor(options: AudioWorkletNodeOptions) {
+    super(options);
+    const { targetSampleRate, frameDurationMs } =
+      options.processorOptions as PcmProcessorOptions;
+
+    this.ratio = sampleRate / targetSampleRate;
+    this.frame = new Int16Array(
+      Math.round((targetSampleRate * frameDurationMs) / 1000)
+    );
+
+    const cutoff = Math.min(targetSampleRate, sampleRate) / 2;
+    const rc = 1 / (2 * Math.PI * cutoff);
+    const dt = 1 / sampleRate;
+    this.filterAlpha = this.ratio > 1 ? dt / (rc + dt) : 1;
+
+    this.port.onmessage = ({ data }) => {
+      if (data === PCM_FLUSH_MESSAGE) {
+        this.postFrame();
+        this.port.postMessage(PCM_FLUSHED_MESSAGE);
+      }
+    };
+  }
+
+  process(inputs: Float32Array[][]) {
+    const channel = inputs[0]?.[0];
+    if (!channel) return true;
+
+    for (let i = 0; i < channel.length; i++) {
+      this.filtered += this.filterAlpha * (channel[i] - this.filtered);
+      const sample = this.filtered;
+
+      // Emit every output sample whose position falls between the previous
+      // and the current input sample, interpolating linearly
+      while (this.position <= 1) {
+        const value =
+          this.previousSample + (sample - this.previousSample) * this.position;
+        this.push(value);
+        this.position += this.ratio;
+      }
+      this.position -= 1;
+      this.previousSample = sample;
+    }
+
+    return true;
+  }
+
+  private push(value: number) {
+    const s = Math.max(-1, Math.min(1, value));
+    this.frame[this.frameLength++] = s < 0 ? s * 0x8000 : s * 0x7fff;
+    if (this.frameLength === this.frame.length) this.postFrame();
+  }
+
+  private postFrame() {
+    if (this.frameLength === 0) return;
+    const buffer = this.frame.slice(0, this.frameLength).buffer;
+    this.port.postMessage(buffer, [buffer]);
+    this.frameLength = 0;
+  }
+}
+
+registerProcessor(PCM_PROCESSOR_NAME, PCMProcessor);
@@ -0,0 +1,17 @@
+// Messages exchanged with the PCM AudioWorklet (see pcmProcessor.worklet.ts)
+
+export const PCM_PROCESSOR_NAME = "pcm-processor";
+
+export interface PcmProcessorOptions {
+  // Sample rate of the emitted frames; the worklet resamples to it
+  targetSampleRate: number;
+  frameDurationMs: number;
+}
+
+// Main thread -> worklet: post the buffered partial frame right away
+export const PCM_FLUSH_MESSAGE = "flush";
+// Worklet -> main thread: every frame captured before the flush was posted
+export const PCM_FLUSHED_MESSAGE = "flushed";
+
+export const MIN_FRAME_DURATION_MS = 20;
+export const MAX_FRAME_DURATION_MS = 100;
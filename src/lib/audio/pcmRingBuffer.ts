@@ -0,0 +1,38 @@
+export interface PcmRingBuffer {
+  push: (frame: Int16Array) => void;
+  // Remove and return all buffered frames, oldest first
+  drain: () => Int16Array[];
+  clear: () => void;
+  // Total number of buffered samples
+  readonly size: number;
+}
+
+// Bounded FIFO of PCM frames. Once more than maxSamples are buffered the
+// oldest frames are dropped, so memory stays constant during long outages.
+export const createPcmRingBuffer = (maxSamples: number): PcmRingBuffer => {
+  let frames: Int16Array[] = [];
+  let size = 0;
+
+  return {
+    push: (frame) => {
+      frames.push(frame);
+      size += frame.length;
+      while (size > maxSamples && frames.length > 1) {
+        size -= frames.shift()!.length;
+      }
+    },
+    drain: () => {
+      const drained = frames;
+      frames = [];
+      size = 0;
+      return drained;
+    },
+    clear: () => {
+      frames = [];
+      size = 0;
+    },
+    get size() {
+      return size;
+    },
+  };
+};
@@ -0,0 +1,32 @@
+// The two participants of a conversation, speaking language A and language B
+export type Speaker = "a" | "b";
+
+export interface ConversationTurn {
+  id: string;
+  speaker: Speaker;
+  text: string;
+  // Language the turn was spoken in
+  language: string;
+  // Language of the other participant, which the turn is translated into
+  translationLanguage: string;
+  // Null while the translation is pending, empty if it failed
+  translation: string | null;
+  start?: number;
+}
+
+const primarySubtag = (code: string) => code.toLowerCase().split("-")[0];
+
+// Attribute an utterance to a participant by its detected language. An
+// utterance in neither language most likely continues the previous turn.
+export const detectSpeaker = (
+  detectedLanguage: string | undefined,
+  languageA: string,
+  languageB: string,
+  previous: Speaker = "a"
+): Speaker => {
+  if (!detectedLanguage) return previous;
+  const detected = primarySubtag(detectedLanguage);
+  if (detected === primarySubtag(languageA)) return "a";
+  if (detected === primarySubtag(languageB)) return "b";
+  return previous;
+};
@@ -0,0 +1,115 @@
+import { findLanguageCode } from "@/lib/languages";
+import type { Glossary, GlossaryEntry } from "./types";
+
+// Layout: a "term" column, an optional "pronunciations" column with hints
+// separated by "|", and one column of fixed translations per language code
+const TERM_COLUMN = "term";
+const PRONUNCIATIONS_COLUMN = "pronunciations";
+const PRONUNCIATION_SEPARATOR = "|";
+
+// RFC 4180 rows: quoted fields may contain commas, quotes ("") and line breaks
+const parseCsvRows = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char !== '"') {
+        field += char;
+      } else if (text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else {
+        quoted = false;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ",") {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+export const parseGlossaryCsv = (text: string): GlossaryEntry[] => {
+  // Spreadsheet exports often start with a byte order mark
+  const [header, ...rows] = parseCsvRows(text.replace(/^\uFEFF/, ""));
+  const columns = (header ?? []).map((cell) => cell.trim().toLowerCase());
+
+  const termIndex = columns.indexOf(TERM_COLUMN);
+  if (termIndex === -1) {
+    throw new Error(`The CSV file needs a "${TERM_COLUMN}" column`);
+  }
+  const pronunciationsIndex = columns.indexOf(PRONUNCIATIONS_COLUMN);
+  // Unknown columns are ignored
+  const languageColumns = columns.flatMap((column, index) => {
+    const language =
+      index === termIndex || index === pronunciationsIndex
+        ? undefined
+        : findLanguageCode(column);
+    return language ? [{ index, language }] : [];
+  });
+
+  return rows.flatMap((cells) => {
+    const term = cells[termIndex]?.trim();
+    if (!term) return [];
+
+    const translations: Record<string, string> = {};
+    languageColumns.forEach(({ index, language }) => {
+      const translation = cells[index]?.trim();
+      if (translation) translations[language] = translation;
+    });
+
+    return [
+      {
+        id: crypto.randomUUID(),
+        term,
+        pronunciations: (cells[pronunciationsIndex] ?? "")
+          .split(PRONUNCIATION_SEPARATOR)
+          .map((hint) => hint.trim())
+          .filter(Boolean),
+        translations,
+      },
+    ];
+  });
+};
+
+const escapeCsvField = (value: string) =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+export const serializeGlossaryCsv = (glossary: Glossary): string => {
+  const languages = [
+    ...new Set(
+      glossary.entries.flatMap((entry) => Object.keys(entry.translations))
+    ),
+  ].sort();
+
+  const rows = [
+    [TERM_COLUMN, PRONUNCIATIONS_COLUMN, ...languages],
+    ...glossary.entries.map((entry) => [
+      entry.term,
+      entry.pronunciations
+        .filter((hint) => hint.trim())
+        .join(PRONUNCIATION_SEPARATOR),
+      ...languages.map((language) => entry.translations[language] ?? ""),
+    ]),
+  ];
+  return rows.map((row) => row.map(escapeCsvField).join(",")).join("\r\n");
+};
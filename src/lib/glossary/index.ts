@@ -0,0 +1,145 @@
+import type { SttVocabularyTerm } from "@/lib/stt";
+import type { Glossary, GlossaryEntry } from "./types";
+
+export type * from "./types";
+export { parseGlossaryCsv, serializeGlossaryCsv } from "./csv";
+export { parseGlossaryTbx, serializeGlossaryTbx } from "./tbx";
+
+const STORAGE_KEY = "glossary";
+
+export const EMPTY_GLOSSARY: Glossary = { sourceLanguage: "en", entries: [] };
+
+export const loadGlossary = (): Glossary => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    return {
+      sourceLanguage: stored.sourceLanguage || EMPTY_GLOSSARY.sourceLanguage,
+      entries: (stored.entries || []).map((entry: Partial<GlossaryEntry>) => ({
+        pronunciations: [],
+        translations: {},
+        ...entry,
+      })),
+    };
+  } catch {
+    return EMPTY_GLOSSARY;
+  }
+};
+
+export const saveGlossary = (glossary: Glossary) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(glossary));
+};
+
+export const createGlossaryEntry = (term = ""): GlossaryEntry => ({
+  id: crypto.randomUUID(),
+  term,
+  pronunciations: [],
+  translations: {},
+});
+
+const normalizeTerm = (term: string) => term.trim().toLowerCase();
+
+// Imported entries replace existing entries with the same term
+export const mergeGlossaryEntries = (
+  existing: GlossaryEntry[],
+  imported: GlossaryEntry[]
+): GlossaryEntry[] => {
+  const importedTerms = new Set(imported.map((entry) => normalizeTerm(entry.term)));
+  return [
+    ...existing.filter((entry) => !importedTerms.has(normalizeTerm(entry.term))),
+    ...imported,
+  ];
+};
+
+const usableEntries = (glossary: Glossary) =>
+  glossary.entries.filter((entry) => entry.term.trim());
+
+// Terms the speech-to-text engine should listen for
+export const getGlossaryVocabulary = (
+  glossary: Glossary = loadGlossary()
+): SttVocabularyTerm[] =>
+  usableEntries(glossary).map((entry) => ({
+    value: entry.term.trim(),
+    pronunciations: entry.pronunciations.filter((hint) => hint.trim()),
+  }));
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+
+// Whole terms only: a letter or digit next to the match makes it part of
+// another word
+const termPattern = (terms: string[], flags: string) =>
+  new RegExp(
+    `(?<![\\p{L}\\p{N}])(?:${terms.map(escapeRegExp).join("|")})(?![\\p{L}\\p{N}])`,
+    `${flags}u`
+  );
+
+const escapeXmlAttribute = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/"/g, "&quot;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+
+// Replace every occurrence of the entries' terms in one pass. Longer terms
+// win, so a term inside a longer term is not replaced on its own.
+const replaceTerms = (
+  text: string,
+  entries: GlossaryEntry[],
+  replace: (entry: GlossaryEntry, match: string) => string
+) => {
+  const terms = entries
+    .map((entry) => entry.term.trim())
+    .sort((a, b) => b.length - a.length);
+  return text.replace(termPattern(terms, "gi"), (match) => {
+    const entry = entries.find(
+      (item) => normalizeTerm(item.term) === match.toLowerCase()
+    );
+    return entry ? replace(entry, match) : match;
+  });
+};
+
+// Entries whose term occurs in the text
+export const findGlossaryEntries = (
+  text: string,
+  glossary: Glossary = loadGlossary()
+) =>
+  usableEntries(glossary).filter((entry) =>
+    termPattern([entry.term.trim()], "i").test(text)
+  );
+
+// Wrap the glossary terms found in the text in Azure Translator's dynamic
+// dictionary markup, which makes them come back verbatim in every target.
+// Returns the marked text and the entries it contains, for
+// applyFixedTranslations.
+export const markGlossaryTerms = (
+  text: string,
+  glossary: Glossary = loadGlossary()
+): { text: string; entries: GlossaryEntry[] } => {
+  const entries = findGlossaryEntries(text, glossary);
+  if (entries.length === 0) return { text, entries };
+
+  const marked = replaceTerms(
+    text,
+    entries,
+    (entry, match) =>
+      `<mstrans:dictionary translation="${escapeXmlAttribute(
+        entry.term.trim()
+      )}">${match}</mstrans:dictionary>`
+  );
+  return { text: marked, entries };
+};
+
+// Replace the verbatim terms left by markGlossaryTerms with their fixed
+// translation into the given language
+export const applyFixedTranslations = (
+  translated: string,
+  entries: GlossaryEntry[],
+  language: string
+) =>
+  entries.length === 0
+    ? translated
+    : replaceTerms(
+        translated,
+        entries,
+        (entry, match) => entry.translations[language]?.trim() || match
+      );
@@ -0,0 +1,128 @@
+import { findLanguageCode } from "@/lib/languages";
+import type { Glossary, GlossaryEntry } from "./types";
+
+// Exports follow TBX-Basic (ISO 30042:2019). Imports also accept the older
+// termEntry / langSet / tig structure.
+const TBX_NAMESPACE = "urn:iso:std:iso:30042:ed-2";
+
+const firstTerm = (section: Element) =>
+  section.querySelector("term")?.textContent?.trim() ?? "";
+
+export const parseGlossaryTbx = (
+  xml: string,
+  fallbackSourceLanguage: string
+): Glossary => {
+  const doc = new DOMParser().parseFromString(xml, "application/xml");
+  if (doc.getElementsByTagName("parsererror").length > 0) {
+    throw new Error("The TBX file is not valid XML");
+  }
+
+  const sourceLanguage =
+    findLanguageCode(doc.documentElement.getAttribute("xml:lang") ?? "") ??
+    fallbackSourceLanguage;
+
+  const entries = Array.from(
+    doc.querySelectorAll("conceptEntry, termEntry")
+  ).flatMap((concept): GlossaryEntry[] => {
+    const sections = Array.from(concept.querySelectorAll("langSec, langSet"))
+      .map((section) => ({
+        section,
+        language: findLanguageCode(section.getAttribute("xml:lang") ?? ""),
+      }))
+      .filter(({ language }) => language);
+
+    // The term is the one in the glossary's language, if the entry has it
+    const source =
+      sections.find(({ language }) => language === sourceLanguage) ??
+      sections[0];
+    const term = source ? firstTerm(source.section) : "";
+    if (!term) return [];
+
+    const translations: Record<string, string> = {};
+    sections.forEach(({ section, language }) => {
+      const translation = firstTerm(section);
+      if (section !== source.section && translation) {
+        translations[language] = translation;
+      }
+    });
+
+    return [
+      {
+        id: crypto.randomUUID(),
+        term,
+        pronunciations: Array.from(
+          source.section.querySelectorAll('termNote[type="pronunciation"]')
+        )
+          .map((note) => note.textContent?.trim() ?? "")
+          .filter(Boolean),
+        translations,
+      },
+    ];
+  });
+
+  return { sourceLanguage, entries };
+};
+
+const escapeXml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+const serializeLangSec = (
+  language: string,
+  term: string,
+  pronunciations: string[] = []
+) =>
+  [
+    `        <langSec xml:lang="${escapeXml(language)}">`,
+    "          <termSec>",
+    `            <term>${escapeXml(term)}</term>`,
+    ...pronunciations.map(
+      (hint) =>
+        `            <termNote type="pronunciation">${escapeXml(hint)}</termNote>`
+    ),
+    "          </termSec>",
+    "        </langSec>",
+  ].join("\n");
+
+export const serializeGlossaryTbx = (glossary: Glossary): string => {
+  const concepts = glossary.entries.map((entry, index) =>
+    [
+      `      <conceptEntry id="c${index + 1}">`,
+      serializeLangSec(
+        glossary.sourceLanguage,
+        entry.term,
+        entry.pronunciations.filter((hint) => hint.trim())
+      ),
+      ...Object.entries(entry.translations)
+        .filter(([, translation]) => translation.trim())
+        .map(([language, translation]) =>
+          serializeLangSec(language, translation)
+        ),
+      "      </conceptEntry>",
+    ].join("\n")
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tbx type="TBX-Basic" style="dca" xml:lang="${escapeXml(
+      glossary.sourceLanguage
+    )}" xmlns="${TBX_NAMESPACE}">`,
+    "  <tbxHeader>",
+    "    <fileDesc>",
+    "      <sourceDesc>",
+    "        <p>Real-Time Speech Translator glossary</p>",
+    "      </sourceDesc>",
+    "    </fileDesc>",
+    "  </tbxHeader>",
+    "  <text>",
+    "    <body>",
+    ...concepts,
+    "    </body>",
+    "  </text>",
+    "</tbx>",
+    "",
+  ].join("\n");
+};
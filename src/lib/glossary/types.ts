@@ -0,0 +1,16 @@
+export interface GlossaryEntry {
+  id: string;
+  // Term as written in the glossary's language, e.g. a product or person name
+  term: string;
+  // How the term sounds, to help speech recognition pick it up
+  pronunciations: string[];
+  // Fixed translations by target language code; targets without one keep
+  // the term as it is
+  translations: Record<string, string>;
+}
+
+export interface Glossary {
+  // Language the terms are written in
+  sourceLanguage: string;
+  entries: GlossaryEntry[];
+}
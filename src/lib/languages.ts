@@ -0,0 +1,51 @@
+export interface Language {
+  code: string;
+  name: string;
+}
+
+// Languages offered as source and target; auto-detection is added by the selector
+export const LANGUAGES: Language[] = [
+  { code: "en", name: "English" },
+  { code: "es", name: "Spanish" },
+  { code: "fr", name: "French" },
+  { code: "de", name: "German" },
+  { code: "it", name: "Italian" },
+  { code: "pt", name: "Portuguese" },
+  { code: "ru", name: "Russian" },
+  { code: "ja", name: "Japanese" },
+  { code: "ko", name: "Korean" },
+  { code: "zh", name: "Chinese (Simplified)" },
+  { code: "ar", name: "Arabic" },
+  { code: "hi", name: "Hindi" },
+  { code: "nl", name: "Dutch" },
+  { code: "pl", name: "Polish" },
+  { code: "tr", name: "Turkish" },
+  { code: "sv", name: "Swedish" },
+  { code: "da", name: "Danish" },
+  { code: "no", name: "Norwegian" },
+  { code: "fi", name: "Finnish" },
+  { code: "cs", name: "Czech" },
+  { code: "hu", name: "Hungarian" },
+  { code: "ro", name: "Romanian" },
+  { code: "uk", name: "Ukrainian" },
+  { code: "bg", name: "Bulgarian" },
+  { code: "hr", name: "Croatian" },
+  { code: "sk", name: "Slovak" },
+  { code: "sl", name: "Slovenian" },
+  { code: "et", name: "Estonian" },
+  { code: "lv", name: "Latvian" },
+  { code: "lt", name: "Lithuanian" },
+];
+
+export const getLanguageName = (code: string) =>
+  LANGUAGES.find((language) => language.code === code)?.name ?? code;
+
+// Norwegian Bokmål and Nynorsk are offered as plain Norwegian
+const LANGUAGE_ALIASES: Record<string, string> = { nb: "no", nn: "no" };
+
+// Code of the offered language a tag such as "es-ES" or "pt_BR" refers to
+export const findLanguageCode = (tag: string): string | undefined => {
+  const primary = tag.trim().toLowerCase().split(/[-_]/)[0];
+  const code = LANGUAGE_ALIASES[primary] ?? primary;
+  return LANGUAGES.find((language) => language.code === code)?.code;
+};
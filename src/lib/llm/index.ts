@@ -0,0 +1,192 @@
+import { getSecret } from "@/lib/secrets";
+
+// All providers are reached through their OpenAI-compatible chat completions
+// API, so any server speaking that protocol works with the "custom" provider
+export type LlmProviderId = "openai" | "azure" | "gemini" | "aws" | "custom";
+
+export interface LlmProviderInfo {
+  id: LlmProviderId;
+  name: string;
+  // Empty when it depends on the account, e.g. the Azure resource name
+  defaultBaseUrl: string;
+  // Shape of the base URL to enter when there is no default
+  baseUrlHint?: string;
+  defaultModel: string;
+  // Azure expects the key in an api-key header instead of a bearer token
+  apiKeyHeader?: "api-key";
+  // Local servers usually run without authentication
+  requiresApiKey: boolean;
+}
+
+export const LLM_PROVIDERS: LlmProviderInfo[] = [
+  {
+    id: "openai",
+    name: "OpenAI",
+    defaultBaseUrl: "https://api.openai.com/v1",
+    defaultModel: "gpt-4o-mini",
+    requiresApiKey: true,
+  },
+  {
+    id: "azure",
+    name: "Azure OpenAI",
+    defaultBaseUrl: "",
+    baseUrlHint: "https://<resource>.openai.azure.com/openai/v1",
+    defaultModel: "",
+    apiKeyHeader: "api-key",
+    requiresApiKey: true,
+  },
+  {
+    id: "gemini",
+    name: "Google Gemini",
+    defaultBaseUrl: "https://generativelanguage.googleapis.com/v1beta/openai",
+    defaultModel: "gemini-2.0-flash",
+    requiresApiKey: true,
+  },
+  {
+    id: "aws",
+    name: "AWS Bedrock",
+    defaultBaseUrl: "https://bedrock-runtime.us-east-1.amazonaws.com/openai/v1",
+    defaultModel: "openai.gpt-oss-20b-1:0",
+    requiresApiKey: true,
+  },
+  {
+    id: "custom",
+    name: "OpenAI-compatible server",
+    defaultBaseUrl: "http://localhost:11434/v1",
+    defaultModel: "",
+    requiresApiKey: false,
+  },
+];
+
+export const DEFAULT_LLM_PROVIDER_ID: LlmProviderId = "openai";
+
+export const getLlmProvider = (id?: string | null): LlmProviderInfo =>
+  LLM_PROVIDERS.find((provider) => provider.id === id) || LLM_PROVIDERS[0];
+
+export interface LlmSettings {
+  providerId: LlmProviderId;
+  apiKey: string;
+  // Overrides the provider's default base URL and model when set
+  baseUrl: string;
+  model: string;
+  // Free-form instruction for the register of translations, e.g. "formal"
+  tone: string;
+}
+
+export const loadLlmSettings = (): LlmSettings => ({
+  providerId: getLlmProvider(localStorage.getItem("llm_provider")).id,
+  apiKey: getSecret("llm_api_key"),
+  baseUrl: localStorage.getItem("llm_base_url") || "",
+  model: localStorage.getItem("llm_model") || "",
+  tone: localStorage.getItem("llm_tone") || "",
+});
+
+// The API key is saved with the other provider keys, see saveSecrets
+export const saveLlmSettings = (settings: LlmSettings) => {
+  localStorage.setItem("llm_provider", settings.providerId);
+  localStorage.setItem("llm_base_url", settings.baseUrl);
+  localStorage.setItem("llm_model", settings.model);
+  localStorage.setItem("llm_tone", settings.tone);
+};
+
+// Base URL and model actually used, with the provider defaults filled in
+const resolveLlmSettings = (settings: LlmSettings) => {
+  const provider = getLlmProvider(settings.providerId);
+  return {
+    provider,
+    baseUrl: (settings.baseUrl.trim() || provider.defaultBaseUrl).replace(
+      /\/+$/,
+      ""
+    ),
+    model: settings.model.trim() || provider.defaultModel,
+  };
+};
+
+export const isLlmConfigured = (settings: LlmSettings = loadLlmSettings()) => {
+  const { provider, baseUrl, model } = resolveLlmSettings(settings);
+  return !!baseUrl && !!model && (!provider.requiresApiKey || !!settings.apiKey);
+};
+
+export interface ChatMessage {
+  role: "system" | "user" | "assistant";
+  content: string;
+}
+
+interface ChatCompletionOptions {
+  signal?: AbortSignal;
+  // Receives the text generated so far every time a token arrives
+  onText?: (text: string) => void;
+  settings?: LlmSettings;
+}
+
+// Run a chat completion with streaming and resolve to the full response text
+export const streamChatCompletion = async (
+  messages: ChatMessage[],
+  { signal, onText, settings = loadLlmSettings() }: ChatCompletionOptions = {}
+): Promise<string> => {
+  const { provider, baseUrl, model } = resolveLlmSettings(settings);
+  if (!isLlmConfigured(settings)) {
+    throw new Error(`${provider.name} is not configured`);
+  }
+
+  const headers: Record<string, string> = { "Content-Type": "application/json" };
+  if (settings.apiKey) {
+    if (provider.apiKeyHeader) {
+      headers[provider.apiKeyHeader] = settings.apiKey;
+    } else {
+      headers.Authorization = `Bearer ${settings.apiKey}`;
+    }
+  }
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: "POST",
+    headers,
+    body: JSON.stringify({ model, messages, stream: true }),
+    signal,
+  });
+
+  if (!response.ok || !response.body) {
+    const body = await response.json().catch(() => null);
+    // OpenAI-style errors, which some servers wrap in an array
+    const error = Array.isArray(body) ? body[0]?.error : body?.error;
+    throw new Error(
+      `${provider.name} request failed: ${error?.message || response.statusText}`
+    );
+  }
+
+  // Server-sent events, one "data:" line per chunk, ending with [DONE]
+  const reader = response.body.getReader();
+  const decoder = new TextDecoder();
+  let buffered = "";
+  let text = "";
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+
+    buffered += decoder.decode(value, { stream: true });
+    const lines = buffered.split("\n");
+    buffered = lines.pop() ?? "";
+
+    for (const line of lines) {
+      const event = line.trim();
+      if (!event.startsWith("data:")) continue;
+      const data = event.slice("data:".length).trim();
+      if (data === "[DONE]") continue;
+
+      // Keep-alives and other lines that are not JSON chunks are skipped
+      let token: string | undefined;
+      try {
+        token = JSON.parse(data).choices?.[0]?.delta?.content;
+      } catch {
+        continue;
+      }
+      if (token) {
+        text += token;
+        onText?.(text);
+      }
+    }
+  }
+
+  return text;
+};
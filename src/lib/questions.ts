@@ -0,0 +1,116 @@
+import { getLanguageName } from "@/lib/languages";
+import type { ChatMessage } from "@/lib/llm";
+import { formatTimestamp, type TranscriptSegment } from "@/lib/transcript";
+
+export interface TranscriptQuestion {
+  id: string;
+  question: string;
+  // Grows while the answer streams in; null until the first token
+  answer: string | null;
+  // Language the answer was requested in
+  language: string;
+  error?: string;
+}
+
+// Latest part of the transcript sent with a question, to bound the prompt
+const MAX_TRANSCRIPT_CHARS = 40000;
+// Earlier questions and answers sent along, for follow-up questions
+const MAX_HISTORY = 4;
+
+// Segments are numbered from 1 in the prompt and cited by that number
+export const getCitationLabel = (
+  segments: TranscriptSegment[],
+  number: number
+) => {
+  const segment = segments[number - 1];
+  if (!segment) return null;
+  return segment.start === undefined
+    ? `#${number}`
+    : formatTimestamp(segment.start);
+};
+
+interface QuestionRequest {
+  question: string;
+  segments: TranscriptSegment[];
+  // Translations of the segments into the answer language, by segment id
+  translations: Record<string, string>;
+  answerLanguage: string;
+  history: TranscriptQuestion[];
+}
+
+export const buildQuestionMessages = ({
+  question,
+  segments,
+  translations,
+  answerLanguage,
+  history,
+}: QuestionRequest): ChatMessage[] => {
+  const lines = segments.map((segment, index) => {
+    const time =
+      segment.start === undefined ? "" : ` (${formatTimestamp(segment.start)})`;
+    const translation = translations[segment.id];
+    return `[${index + 1}]${time} ${segment.text}${
+      translation ? `\n    Translation: ${translation}` : ""
+    }`;
+  });
+
+  // Keep the most recent lines that fit
+  let length = 0;
+  let first = lines.length;
+  while (first > 0 && length + lines[first - 1].length <= MAX_TRANSCRIPT_CHARS) {
+    length += lines[first - 1].length + 1;
+    first--;
+  }
+
+  const language = getLanguageName(answerLanguage);
+  const instructions = [
+    "You answer questions about a live meeting using only its transcript below. If the transcript does not cover the question, say so.",
+    `Always answer in ${language}, whatever the language of the question or the transcript.`,
+    "Cite the transcript segments you rely on by their number in square brackets, e.g. [3] or [3][7].",
+    "Be brief.",
+    "",
+    first > 0
+      ? `Transcript (the first ${first} segments are left out):`
+      : "Transcript:",
+    ...lines.slice(first),
+  ];
+
+  const earlier = history
+    .filter((item) => item.answer)
+    .slice(-MAX_HISTORY)
+    .flatMap((item): ChatMessage[] => [
+      { role: "user", content: item.question },
+      { role: "assistant", content: item.answer! },
+    ]);
+
+  return [
+    { role: "system", content: instructions.join("\n") },
+    ...earlier,
+    { role: "user", content: question },
+  ];
+};
+
+export type AnswerPart =
+  | { type: "text"; text: string }
+  | { type: "citation"; number: number };
+
+// Split an answer into text and citations such as [3] or [3, 7]
+export const parseAnswer = (answer: string): AnswerPart[] => {
+  const parts: AnswerPart[] = [];
+  let consumed = 0;
+
+  for (const match of answer.matchAll(/\[(\d+(?:\s*,\s*\d+)*)\]/g)) {
+    if (match.index! > consumed) {
+      parts.push({ type: "text", text: answer.slice(consumed, match.index) });
+    }
+    match[1].split(",").forEach((number) =>
+      parts.push({ type: "citation", number: Number(number) })
+    );
+    consumed = match.index! + match[0].length;
+  }
+  if (consumed < answer.length) {
+    parts.push({ type: "text", text: answer.slice(consumed) });
+  }
+
+  return parts;
+};
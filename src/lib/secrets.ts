@@ -0,0 +1,239 @@
+// Provider API keys, kept in one of three places: plaintext localStorage (the
+// default), a passphrase-encrypted vault in localStorage, or memory only
+
+export type SecretName =
+  | "gladia_api_key"
+  | "azure_api_key"
+  | "elevenlabs_api_key"
+  | "llm_api_key";
+
+export const SECRET_NAMES: SecretName[] = [
+  "gladia_api_key",
+  "azure_api_key",
+  "elevenlabs_api_key",
+  "llm_api_key",
+];
+
+export type Secrets = Record<SecretName, string>;
+
+export type SecretStorage = "local" | "vault" | "session";
+
+export const SECRET_STORAGE_OPTIONS: {
+  id: SecretStorage;
+  name: string;
+  description: string;
+}[] = [
+  {
+    id: "local",
+    name: "Browser storage",
+    description:
+      "Keys are stored unencrypted in this browser. Anyone using this browser profile, or any script running on the page, can read them.",
+  },
+  {
+    id: "vault",
+    name: "Encrypted with a passphrase",
+    description:
+      "Keys are encrypted with your passphrase before they are stored. The passphrase is asked once after the app is opened and the keys then stay in memory until the page is closed.",
+  },
+  {
+    id: "session",
+    name: "This session only",
+    description:
+      "Keys are never stored and have to be entered again every time the app is opened.",
+  },
+];
+
+const STORAGE_MODE_KEY = "secret_storage";
+const VAULT_KEY = "secret_vault";
+
+const PBKDF2_ITERATIONS = 600000;
+const MIN_PASSPHRASE_LENGTH = 8;
+
+interface StoredVault {
+  salt: string;
+  iv: string;
+  data: string;
+  iterations: number;
+}
+
+// Keys in use for the vault and session storages; null while the vault is
+// locked
+let memorySecrets: Secrets | null = null;
+// Derived from the passphrase when the vault was unlocked or created, so
+// later changes can be encrypted without asking for it again. The salt and
+// iteration count it was derived with are written along with every change.
+let vaultKey: { key: CryptoKey; salt: string; iterations: number } | null =
+  null;
+
+const listeners = new Set<() => void>();
+
+// Called when the storage changes or the vault is unlocked
+export const subscribeToSecrets = (listener: () => void) => {
+  listeners.add(listener);
+  return () => {
+    listeners.delete(listener);
+  };
+};
+
+const notify = () => listeners.forEach((listener) => listener());
+
+const emptySecrets = (): Secrets =>
+  Object.fromEntries(SECRET_NAMES.map((name) => [name, ""])) as Secrets;
+
+const toBase64 = (bytes: Uint8Array) =>
+  btoa(String.fromCharCode(...bytes));
+
+const fromBase64 = (text: string) =>
+  Uint8Array.from(atob(text), (char) => char.charCodeAt(0));
+
+const deriveKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number
+) => {
+  const material = await crypto.subtle.importKey(
+    "raw",
+    new TextEncoder().encode(passphrase),
+    "PBKDF2",
+    false,
+    ["deriveKey"]
+  );
+  return crypto.subtle.deriveKey(
+    { name: "PBKDF2", salt, iterations, hash: "SHA-256" },
+    material,
+    { name: "AES-GCM", length: 256 },
+    false,
+    ["encrypt", "decrypt"]
+  );
+};
+
+const writeVault = async (secrets: Secrets) => {
+  if (!vaultKey) throw new Error("The key vault is locked");
+
+  const iv = crypto.getRandomValues(new Uint8Array(12));
+  const data = await crypto.subtle.encrypt(
+    { name: "AES-GCM", iv },
+    vaultKey.key,
+    new TextEncoder().encode(JSON.stringify(secrets))
+  );
+  const vault: StoredVault = {
+    salt: vaultKey.salt,
+    iv: toBase64(iv),
+    data: toBase64(new Uint8Array(data)),
+    iterations: vaultKey.iterations,
+  };
+  localStorage.setItem(VAULT_KEY, JSON.stringify(vault));
+};
+
+export const getSecretStorage = (): SecretStorage => {
+  const stored = localStorage.getItem(STORAGE_MODE_KEY);
+  return stored === "vault" || stored === "session" ? stored : "local";
+};
+
+export const isVaultLocked = () =>
+  getSecretStorage() === "vault" && memorySecrets === null;
+
+// Empty while the vault is locked
+export const getSecret = (name: SecretName): string => {
+  if (getSecretStorage() === "local") return localStorage.getItem(name) || "";
+  return memorySecrets?.[name] ?? "";
+};
+
+export const loadSecrets = (): Secrets =>
+  Object.fromEntries(
+    SECRET_NAMES.map((name) => [name, getSecret(name)])
+  ) as Secrets;
+
+export const saveSecrets = async (secrets: Secrets) => {
+  const storage = getSecretStorage();
+  if (storage === "local") {
+    SECRET_NAMES.forEach((name) => localStorage.setItem(name, secrets[name]));
+  } else if (storage === "vault") {
+    await writeVault(secrets);
+  }
+  // Kept in memory once stored, so a failed vault write changes nothing
+  if (storage !== "local") memorySecrets = { ...secrets };
+};
+
+export const unlockVault = async (passphrase: string) => {
+  let vault: StoredVault;
+  try {
+    vault = JSON.parse(localStorage.getItem(VAULT_KEY) || "");
+  } catch {
+    throw new Error("No key vault is stored in this browser");
+  }
+
+  const key = await deriveKey(
+    passphrase,
+    fromBase64(vault.salt),
+    vault.iterations
+  );
+  let decrypted: ArrayBuffer;
+  try {
+    decrypted = await crypto.subtle.decrypt(
+      { name: "AES-GCM", iv: fromBase64(vault.iv) },
+      key,
+      fromBase64(vault.data)
+    );
+  } catch {
+    throw new Error("Wrong passphrase");
+  }
+
+  vaultKey = { key, salt: vault.salt, iterations: vault.iterations };
+  memorySecrets = {
+    ...emptySecrets(),
+    ...JSON.parse(new TextDecoder().decode(decrypted)),
+  };
+  notify();
+};
+
+// Move the keys to another storage. A passphrase is required to create the
+// vault, and changes the passphrase of an existing one.
+export const setSecretStorage = async (
+  storage: SecretStorage,
+  passphrase?: string
+) => {
+  if (isVaultLocked()) throw new Error("Unlock the key vault first");
+  const secrets = loadSecrets();
+
+  if (storage === "vault" && passphrase !== undefined) {
+    if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+      throw new Error(
+        `The passphrase needs at least ${MIN_PASSPHRASE_LENGTH} characters`
+      );
+    }
+    const salt = crypto.getRandomValues(new Uint8Array(16));
+    vaultKey = {
+      key: await deriveKey(passphrase, salt, PBKDF2_ITERATIONS),
+      salt: toBase64(salt),
+      iterations: PBKDF2_ITERATIONS,
+    };
+    await writeVault(secrets);
+  } else if (storage === "vault" && !vaultKey) {
+    throw new Error("Choose a passphrase for the key vault");
+  }
+
+  localStorage.setItem(STORAGE_MODE_KEY, storage);
+  memorySecrets = storage === "local" ? null : secrets;
+  if (storage === "local") {
+    SECRET_NAMES.forEach((name) => localStorage.setItem(name, secrets[name]));
+  } else {
+    // Plaintext copies from the browser storage must not outlive the move
+    SECRET_NAMES.forEach((name) => localStorage.removeItem(name));
+  }
+  if (storage !== "vault") {
+    localStorage.removeItem(VAULT_KEY);
+    vaultKey = null;
+  }
+  notify();
+};
+
+// Drop every stored key, e.g. after the vault passphrase was forgotten
+export const forgetSecrets = () => {
+  SECRET_NAMES.forEach((name) => localStorage.removeItem(name));
+  localStorage.removeItem(VAULT_KEY);
+  localStorage.removeItem(STORAGE_MODE_KEY);
+  memorySecrets = null;
+  vaultKey = null;
+  notify();
+};
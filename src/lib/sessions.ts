@@ -0,0 +1,40 @@
+import type { MeetingSummary } from "@/lib/summary";
+import type { TranscriptSegment } from "@/lib/transcript";
+
+// Transcript of a finished recording
+export interface SavedSession {
+  id: string;
+  savedAt: number;
+  sourceLanguage: string;
+  segments: TranscriptSegment[];
+  // Translated transcript by target language
+  translations: Record<string, string>;
+  summary: MeetingSummary | null;
+}
+
+const STORAGE_KEY = "saved_sessions";
+// Older sessions are dropped to stay within the localStorage quota
+const MAX_SAVED_SESSIONS = 20;
+
+export const loadSavedSessions = (): SavedSession[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "[]");
+    return Array.isArray(stored) ? stored : [];
+  } catch {
+    return [];
+  }
+};
+
+// Save a session, replacing the earlier version with the same id
+export const saveSession = (session: SavedSession) => {
+  const sessions = [
+    session,
+    ...loadSavedSessions().filter((saved) => saved.id !== session.id),
+  ].slice(0, MAX_SAVED_SESSIONS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(sessions));
+  } catch (err) {
+    console.error("Failed to save the transcript:", err);
+  }
+};
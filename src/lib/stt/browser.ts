@@ -0,0 +1,196 @@
+import type { SttProvider, SttSession, SttSessionOptions } from "./types";
+
+// Longest wait for the recognizer to deliver its last result after stop()
+const STOP_TIMEOUT_MS = 3000;
+
+// The Web Speech recognition API is not part of the TypeScript DOM library
+interface RecognitionResultEvent {
+  resultIndex: number;
+  results: SpeechRecognitionResultList;
+}
+
+interface RecognitionErrorEvent {
+  error: string;
+  message?: string;
+}
+
+interface SpeechRecognition {
+  lang: string;
+  continuous: boolean;
+  interimResults: boolean;
+  onstart: (() => void) | null;
+  onresult: ((event: RecognitionResultEvent) => void) | null;
+  onerror: ((event: RecognitionErrorEvent) => void) | null;
+  onend: (() => void) | null;
+  start: () => void;
+  stop: () => void;
+  abort: () => void;
+}
+
+type SpeechRecognitionClass = new () => SpeechRecognition;
+
+const getRecognitionClass = (): SpeechRecognitionClass | undefined => {
+  if (typeof window === "undefined") return undefined;
+  const scope = window as unknown as {
+    SpeechRecognition?: SpeechRecognitionClass;
+    webkitSpeechRecognition?: SpeechRecognitionClass;
+  };
+  return scope.SpeechRecognition || scope.webkitSpeechRecognition;
+};
+
+// Restarts in a row after errors before the session gives up
+const MAX_RESTART_ATTEMPTS = 5;
+
+// Errors after which restarting the recognizer cannot help
+const FATAL_ERRORS = ["not-allowed", "service-not-allowed", "language-not-supported"];
+
+// Engine built on the browser's SpeechRecognition API. The browser listens to
+// the default microphone itself, so the captured PCM is ignored. Chrome ends
+// continuous recognition after a while, so the recognizer is restarted until
+// the session is stopped.
+const startSession = async ({
+  sourceLanguage,
+  onEvent,
+}: SttSessionOptions): Promise<SttSession> => {
+  const Recognition = getRecognitionClass();
+
+  if (!Recognition) {
+    throw new Error("Speech recognition is not supported in this browser");
+  }
+
+  // There is no auto-detection; the browser language is the best guess
+  const lang =
+    sourceLanguage === "Auto-Detect" ? navigator.language : sourceLanguage;
+  const language = lang.split("-")[0];
+
+  const sessionStart = performance.now();
+  const elapsedSeconds = () => (performance.now() - sessionStart) / 1000;
+
+  // Result indexes restart with every recognizer run
+  let run = 0;
+  const startTimes = new Map<string, number>();
+  let restartAttempts = 0;
+  let hadError = false;
+  let started = false;
+  let stopped = false;
+  let failed = false;
+  let resolveStop: (() => void) | null = null;
+
+  const recognition = new Recognition();
+  recognition.lang = lang;
+  recognition.continuous = true;
+  recognition.interimResults = true;
+
+  const fail = (message: string) => {
+    failed = true;
+    onEvent({ type: "error", message: `Speech recognition failed: ${message}` });
+    onEvent({ type: "lifecycle", state: "failed" });
+  };
+
+  recognition.onstart = () => {
+    onEvent({ type: "lifecycle", state: "connected" });
+    if (!started) {
+      started = true;
+      onEvent({ type: "lifecycle", state: "recording_started" });
+    }
+  };
+
+  recognition.onresult = ({ resultIndex, results }) => {
+    for (let i = resultIndex; i < results.length; i++) {
+      const result = results[i];
+      const text = result[0].transcript.trim();
+      if (!text) continue;
+
+      const id = `browser-${run}-${i}`;
+      if (!startTimes.has(id)) startTimes.set(id, elapsedSeconds());
+      const start = startTimes.get(id);
+
+      if (result.isFinal) {
+        startTimes.delete(id);
+        onEvent({
+          type: "final",
+          utterance: { id, text, language, start, end: elapsedSeconds() },
+        });
+      } else {
+        onEvent({ type: "partial", utterance: { id, text, language, start } });
+      }
+    }
+  };
+
+  recognition.onerror = ({ error, message }) => {
+    // Silence and our own stop() are not worth reporting
+    if (error === "no-speech" || error === "aborted") return;
+
+    if (FATAL_ERRORS.includes(error)) {
+      fail(message || error);
+      return;
+    }
+
+    console.error("Speech recognition error:", error, message);
+    hadError = true;
+    if (!stopped) onEvent({ type: "lifecycle", state: "reconnecting" });
+  };
+
+  recognition.onend = () => {
+    if (failed) {
+      onEvent({ type: "lifecycle", state: "closed" });
+      return;
+    }
+    if (stopped) {
+      resolveStop?.();
+      return;
+    }
+    // Runs also end after silence, which is not a failure
+    restartAttempts = hadError ? restartAttempts + 1 : 0;
+    hadError = false;
+    if (restartAttempts > MAX_RESTART_ATTEMPTS) {
+      fail(`gave up after ${MAX_RESTART_ATTEMPTS} restarts`);
+      onEvent({ type: "lifecycle", state: "closed" });
+      return;
+    }
+    run++;
+    startTimes.clear();
+    recognition.start();
+  };
+
+  recognition.start();
+
+  return {
+    sendAudio: () => {},
+    stop: async () => {
+      if (stopped || failed) return;
+      stopped = true;
+
+      // stop(), unlike abort(), delivers the result for the speech so far
+      await new Promise<void>((resolve) => {
+        const timer = setTimeout(() => {
+          recognition.abort();
+          resolve();
+        }, STOP_TIMEOUT_MS);
+        resolveStop = () => {
+          clearTimeout(timer);
+          resolve();
+        };
+        recognition.stop();
+      });
+
+      onEvent({ type: "lifecycle", state: "recording_ended" });
+      onEvent({ type: "lifecycle", state: "session_ended" });
+      onEvent({ type: "lifecycle", state: "closed" });
+    },
+  };
+};
+
+export const browserProvider: SttProvider = {
+  id: "browser",
+  name: "Browser speech recognition",
+  description:
+    "Free recognition built into the browser (best in Chrome and Edge). Needs no API key, but listens to the default microphone only.",
+  isConfigured: () => !!getRecognitionClass(),
+  supportsTranslation: false,
+  supportsAutoDetect: false,
+  supportsCodeSwitching: false,
+  supportsCustomVocabulary: false,
+  usesCapturedAudio: false,
+  startSession,
+};
@@ -0,0 +1,340 @@
+import { createPcmRingBuffer } from "@/lib/audio/pcmRingBuffer";
+import { getSecret } from "@/lib/secrets";
+import type { SttProvider, SttSession, SttSessionOptions } from "./types";
+
+const GLADIA_LIVE_ENDPOINT = "https://api.gladia.io/v2/live";
+
+// Longest wait for Gladia to finalize the last utterance after stop_recording
+const STOP_TIMEOUT_MS = 5000;
+
+// Reconnection after an unexpected close: exponential backoff, bounded attempts
+const MAX_RECONNECT_ATTEMPTS = 5;
+const RECONNECT_BASE_DELAY_MS = 500;
+const RECONNECT_MAX_DELAY_MS = 8000;
+// A connection open this long without closing counts as recovered, even
+// before a transcript arrives
+const STABLE_CONNECTION_MS = 10000;
+
+// Audio kept while the socket is down, replayed once a new session is open
+const MAX_BUFFERED_SECONDS = 30;
+
+const getApiKey = () => getSecret("gladia_api_key");
+
+const startSession = async ({
+  sourceLanguage,
+  languageCandidates,
+  targetLanguages,
+  sampleRate,
+  translate,
+  vocabulary = [],
+  onEvent,
+}: SttSessionOptions): Promise<SttSession> => {
+  const GLADIA_API_KEY = getApiKey();
+
+  if (!GLADIA_API_KEY) {
+    throw new Error("Gladia API key not configured");
+  }
+
+  const sessionConfig = {
+    encoding: "wav/pcm", // This is correct, as you will send raw PCM
+    sample_rate: sampleRate,
+    bit_depth: 16,
+    channels: 1,
+    endpointing: 0.05,
+    language_config: {
+      languages:
+        languageCandidates ??
+        (sourceLanguage == "Auto-Detect" ? [] : [sourceLanguage]),
+      code_switching: true,
+    },
+    pre_processing: {
+      speech_threshold: 0.4, // Good starting point
+    },
+    realtime_processing: {
+      custom_vocabulary: vocabulary.length > 0,
+      ...(vocabulary.length > 0 && {
+        custom_vocabulary_config: {
+          // Plain strings for terms without pronunciation hints
+          vocabulary: vocabulary.map(({ value, pronunciations }) =>
+            pronunciations.length > 0 ? { value, pronunciations } : value
+          ),
+        },
+      }),
+      translation: translate,
+      translation_config: {
+        target_languages: targetLanguages,
+        context_adaptation: true,
+      },
+      sentiment_analysis: true,
+    },
+    callback_config: {
+      receive_final_transcripts: true,
+      receive_speech_events: true,
+      receive_pre_processing_events: false,
+      receive_realtime_processing_events: translate,
+      receive_partial_transcripts: true,
+      receive_post_processing_events: false,
+      receive_acknowledgments: true,
+      receive_errors: true,
+      receive_lifecycle_events: true,
+    },
+    messages_config: {
+      receive_final_transcripts: true,
+      receive_speech_events: true,
+      receive_pre_processing_events: false,
+      receive_realtime_processing_events: translate,
+      receive_partial_transcripts: true,
+      receive_post_processing_events: false,
+      receive_acknowledgments: true,
+      receive_errors: true,
+      receive_lifecycle_events: true,
+    },
+  };
+
+  // Initialize a Gladia live session and return its WebSocket URL
+  const initLiveSession = async (): Promise<{ id: string; url: string }> => {
+    const response = await fetch(GLADIA_LIVE_ENDPOINT, {
+      method: "POST",
+      headers: {
+        "X-Gladia-Key": GLADIA_API_KEY,
+        "Content-Type": "application/json",
+      },
+      body: JSON.stringify(sessionConfig),
+    });
+
+    if (!response.ok) {
+      const errorText = await response.text();
+      console.error(
+        `Gladia session initialization failed: ${response.status} - ${
+          errorText || response.statusText
+        }`
+      );
+      throw new Error(
+        `Failed to initialize Gladia session: ${
+          errorText || response.statusText
+        }`
+      );
+    }
+
+    return response.json();
+  };
+
+  const buffer = createPcmRingBuffer(MAX_BUFFERED_SECONDS * sampleRate);
+  // Samples received from the microphone since the start of the recording
+  let capturedSamples = 0;
+  let ws: WebSocket | null = null;
+  let reconnectAttempts = 0;
+  let reconnectTimer: ReturnType<typeof setTimeout> | null = null;
+  let stableTimer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+  // Set while a graceful stop waits for the end of the session
+  let finishStop: (() => void) | null = null;
+
+  const connect = (id: string, url: string) => {
+    const socket = new WebSocket(url);
+    socket.binaryType = "arraybuffer";
+    ws = socket;
+
+    // Utterance ids restart with every Gladia session, so prefix them to keep
+    // them unique across reconnections
+    const utteranceId = (rawId: string) => `${id}:${rawId}`;
+    // Timestamps also restart with every session: this one starts with the
+    // replayed audio, so shift them to the start of the recording
+    let offsetSeconds = 0;
+
+    // The backoff only starts over once the connection proved to work, so a
+    // server that accepts and closes right away still exhausts the attempts
+    const markStable = () => {
+      if (stableTimer) clearTimeout(stableTimer);
+      stableTimer = null;
+      reconnectAttempts = 0;
+    };
+
+    socket.onopen = () => {
+      stableTimer = setTimeout(markStable, STABLE_CONNECTION_MS);
+      offsetSeconds = (capturedSamples - buffer.size) / sampleRate;
+      // Replay audio captured while the socket was not open
+      buffer.drain().forEach((frame) => socket.send(frame));
+      onEvent({ type: "lifecycle", state: "connected" });
+    };
+
+    socket.onmessage = (event) => {
+      try {
+        const message = JSON.parse(event.data);
+
+        switch (message.type) {
+          case "transcript": {
+            const utterance = message.data?.utterance;
+            if (!utterance) break;
+            markStable();
+            onEvent({
+              type: message.data.is_final ? "final" : "partial",
+              utterance: {
+                id: utteranceId(message.data.id),
+                text: utterance.text || "",
+                language: utterance.language,
+                start:
+                  utterance.start === undefined
+                    ? undefined
+                    : utterance.start + offsetSeconds,
+                end:
+                  utterance.end === undefined
+                    ? undefined
+                    : utterance.end + offsetSeconds,
+              },
+            });
+            break;
+          }
+          case "translation": {
+            const translated = message.data?.translated_utterance;
+            if (translated?.text) {
+              onEvent({
+                type: "translation",
+                utteranceId: utteranceId(message.data.utterance_id),
+                text: translated.text,
+                language: message.data.target_language || translated.language,
+              });
+            }
+            break;
+          }
+          case "start_recording":
+            onEvent({ type: "lifecycle", state: "recording_started" });
+            break;
+          case "end_recording":
+            onEvent({ type: "lifecycle", state: "recording_ended" });
+            break;
+          case "end_session":
+            onEvent({ type: "lifecycle", state: "session_ended" });
+            finishStop?.();
+            break;
+          case "error":
+            console.error("Gladia error:", message);
+            onEvent({
+              type: "error",
+              message: message.data?.message || "Transcription error",
+            });
+            break;
+        }
+      } catch (err) {
+        console.error("Error parsing WebSocket message:", err);
+      }
+    };
+
+    socket.onerror = (error) => {
+      console.error("WebSocket error:", error);
+    };
+
+    socket.onclose = (event) => {
+      if (ws !== socket) return;
+      ws = null;
+      if (stableTimer) clearTimeout(stableTimer);
+      stableTimer = null;
+
+      // Any close the client did not ask for, including a clean one such as
+      // at the session duration limit, is followed by a reconnection
+      if (stopped) {
+        finishStop?.();
+        onEvent({ type: "lifecycle", state: "closed" });
+        return;
+      }
+
+      console.warn("Gladia connection closed unexpectedly", {
+        code: event.code,
+        reason: event.reason,
+      });
+      scheduleReconnect();
+    };
+  };
+
+  const giveUp = () => {
+    stopped = true;
+    buffer.clear();
+    onEvent({
+      type: "error",
+      message: `Connection lost: gave up after ${MAX_RECONNECT_ATTEMPTS} reconnection attempts`,
+    });
+    onEvent({ type: "lifecycle", state: "failed" });
+    onEvent({ type: "lifecycle", state: "closed" });
+  };
+
+  const scheduleReconnect = () => {
+    if (reconnectAttempts >= MAX_RECONNECT_ATTEMPTS) {
+      giveUp();
+      return;
+    }
+
+    const delay = Math.min(
+      RECONNECT_BASE_DELAY_MS * 2 ** reconnectAttempts,
+      RECONNECT_MAX_DELAY_MS
+    );
+    reconnectAttempts++;
+    onEvent({ type: "lifecycle", state: "reconnecting" });
+
+    reconnectTimer = setTimeout(async () => {
+      reconnectTimer = null;
+      try {
+        const { id, url } = await initLiveSession();
+        if (stopped) return;
+        connect(id, url);
+      } catch (err) {
+        console.error("Gladia reconnection failed:", err);
+        if (!stopped) scheduleReconnect();
+      }
+    }, delay);
+  };
+
+  const { id, url } = await initLiveSession();
+  connect(id, url);
+
+  return {
+    sendAudio: (pcm) => {
+      if (stopped) return;
+      capturedSamples += pcm.length;
+      if (ws?.readyState === WebSocket.OPEN) {
+        ws.send(pcm);
+      } else {
+        // Keep audio captured while connecting or reconnecting
+        buffer.push(pcm);
+      }
+    },
+    // Gladia finalizes the last utterance after the stop signal, so keep the
+    // socket open until the session ends or the timeout expires
+    stop: () =>
+      new Promise<void>((resolve) => {
+        const socket = ws;
+        stopped = true;
+        if (reconnectTimer) clearTimeout(reconnectTimer);
+
+        if (socket?.readyState !== WebSocket.OPEN) {
+          socket?.close(1000);
+          buffer.clear();
+          resolve();
+          return;
+        }
+
+        const timer = setTimeout(() => finishStop?.(), STOP_TIMEOUT_MS);
+        finishStop = () => {
+          finishStop = null;
+          clearTimeout(timer);
+          if (socket.readyState === WebSocket.OPEN) socket.close(1000);
+          resolve();
+        };
+
+        // Send stop signal to WebSocket
+        socket.send(JSON.stringify({ type: "stop_recording" }));
+      }),
+  };
+};
+
+export const gladiaProvider: SttProvider = {
+  id: "gladia",
+  name: "Gladia",
+  description: "Real-time streaming transcription via the Gladia live API.",
+  isConfigured: () => !!getApiKey(),
+  supportsTranslation: true,
+  supportsAutoDetect: true,
+  supportsCodeSwitching: true,
+  supportsCustomVocabulary: true,
+  usesCapturedAudio: true,
+  startSession,
+};
@@ -0,0 +1,43 @@
+import { gladiaProvider } from "./gladia";
+import { simulatedProvider } from "./simulated";
+import { browserProvider } from "./browser";
+import type { SttProvider } from "./types";
+
+export type * from "./types";
+
+// The simulated engine is a development aid and is left out of builds
+export const STT_PROVIDERS: SttProvider[] = [
+  gladiaProvider,
+  browserProvider,
+  ...(import.meta.env.DEV ? [simulatedProvider] : []),
+];
+
+export const DEFAULT_STT_PROVIDER_ID = gladiaProvider.id;
+
+export const getSttProvider = (id?: string | null): SttProvider =>
+  STT_PROVIDERS.find((provider) => provider.id === id) || gladiaProvider;
+
+// Provider currently selected in the settings
+export const getSelectedSttProvider = (): SttProvider =>
+  getSttProvider(localStorage.getItem("stt_provider"));
+
+// Features the engine lacks, for display next to the engine choice
+export const getSttLimitations = (provider: SttProvider): string[] => {
+  const limitations: string[] = [];
+  if (!provider.supportsAutoDetect) {
+    limitations.push("No language auto-detection; pick the spoken language");
+  }
+  if (!provider.supportsCodeSwitching) {
+    limitations.push("No code switching; one language per recording");
+  }
+  if (!provider.supportsCustomVocabulary) {
+    limitations.push("Ignores the glossary when recognizing speech");
+  }
+  if (!provider.supportsTranslation) {
+    limitations.push("No built-in translation");
+  }
+  if (!provider.usesCapturedAudio) {
+    limitations.push("Ignores tab audio and the microphone selection");
+  }
+  return limitations;
+};
@@ -0,0 +1,102 @@
+import type { SttProvider, SttSession, SttSessionOptions } from "./types";
+
+// Scripted sentences replayed by the simulated engine, one word at a time
+const SCRIPT = [
+  "Hello everyone, thanks for joining today.",
+  "Let's start with a quick update on the project.",
+  "The first milestone was delivered last week.",
+  "We still need to review the budget for next quarter.",
+  "Does anyone have questions before we move on?",
+];
+
+const WORD_INTERVAL_MS = 300;
+const SENTENCE_PAUSE_MS = 900;
+
+// Offline engine that ignores the captured audio and emits a scripted
+// transcript, so the recording pipeline can be exercised without network
+// access or API keys.
+const startSession = async ({
+  onEvent,
+}: SttSessionOptions): Promise<SttSession> => {
+  let sentenceIndex = 0;
+  let wordIndex = 0;
+  let timer: ReturnType<typeof setTimeout> | null = null;
+  let stopped = false;
+
+  const tick = () => {
+    if (stopped) return;
+
+    const sentence = SCRIPT[sentenceIndex % SCRIPT.length];
+    const words = sentence.split(" ");
+    const id = `simulated-${sentenceIndex}`;
+    const start = sentenceIndex * 4;
+
+    wordIndex++;
+    if (wordIndex < words.length) {
+      onEvent({
+        type: "partial",
+        utterance: {
+          id,
+          text: words.slice(0, wordIndex).join(" "),
+          language: "en",
+          start,
+        },
+      });
+      timer = setTimeout(tick, WORD_INTERVAL_MS);
+    } else {
+      onEvent({
+        type: "final",
+        utterance: { id, text: sentence, language: "en", start, end: start + 3 },
+      });
+      sentenceIndex++;
+      wordIndex = 0;
+      timer = setTimeout(tick, SENTENCE_PAUSE_MS);
+    }
+  };
+
+  setTimeout(() => {
+    if (stopped) return;
+    onEvent({ type: "lifecycle", state: "connected" });
+    onEvent({ type: "lifecycle", state: "recording_started" });
+    timer = setTimeout(tick, WORD_INTERVAL_MS);
+  }, 0);
+
+  return {
+    sendAudio: () => {},
+    stop: async () => {
+      stopped = true;
+      if (timer) clearTimeout(timer);
+      // Finalize the sentence that was in progress, as a real engine would
+      if (wordIndex > 0) {
+        const words = SCRIPT[sentenceIndex % SCRIPT.length].split(" ");
+        onEvent({
+          type: "final",
+          utterance: {
+            id: `simulated-${sentenceIndex}`,
+            text: words.slice(0, wordIndex).join(" "),
+            language: "en",
+            start: sentenceIndex * 4,
+          },
+        });
+      }
+      onEvent({ type: "lifecycle", state: "recording_ended" });
+      onEvent({ type: "lifecycle", state: "session_ended" });
+      onEvent({ type: "lifecycle", state: "closed" });
+    },
+  };
+};
+
+export const simulatedProvider: SttProvider = {
+  id: "simulated",
+  name: "Simulated (offline)",
+  description:
+    "Replays a scripted transcript without network access. Useful for testing the pipeline.",
+  isConfigured: () => true,
+  supportsTranslation: false,
+  // The script is English whatever language is selected
+  supportsAutoDetect: false,
+  supportsCodeSwitching: false,
+  supportsCustomVocabulary: false,
+  usesCapturedAudio: false,
+  startSession,
+};
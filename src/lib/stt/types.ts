@@ -0,0 +1,73 @@
+export interface SttUtterance {
+  id: string;
+  text: string;
+  language?: string;
+  start?: number;
+  end?: number;
+}
+
+export type SttLifecycleState =
+  | "connected"
+  // The connection dropped and the engine is trying to restore it
+  | "reconnecting"
+  // The engine gave up restoring the connection; "closed" follows
+  | "failed"
+  | "recording_started"
+  | "recording_ended"
+  | "session_ended"
+  | "closed";
+
+export type SttEvent =
+  | { type: "partial"; utterance: SttUtterance }
+  | { type: "final"; utterance: SttUtterance }
+  | { type: "translation"; utteranceId: string; text: string; language: string }
+  | { type: "error"; message: string }
+  | { type: "lifecycle"; state: SttLifecycleState };
+
+// Word or name the engine should be biased towards recognizing
+export interface SttVocabularyTerm {
+  value: string;
+  // How the term sounds, e.g. for names spelled unlike they are pronounced
+  pronunciations: string[];
+}
+
+export interface SttSessionOptions {
+  sourceLanguage: string;
+  // Languages the engine should choose between when detecting the language
+  // of each utterance; overrides sourceLanguage
+  languageCandidates?: string[];
+  targetLanguages: string[];
+  // Sample rate of the Int16 PCM frames that will be pushed to the session
+  sampleRate: number;
+  // Ask the engine to translate utterances into the target language itself
+  translate: boolean;
+  // Terms to recognize, from the glossary
+  vocabulary?: SttVocabularyTerm[];
+  onEvent: (event: SttEvent) => void;
+}
+
+export interface SttSession {
+  sendAudio: (pcm: Int16Array) => void;
+  // Resolves once the engine delivered its remaining finals and the session ended
+  stop: () => Promise<void>;
+}
+
+export interface SttProvider {
+  id: string;
+  name: string;
+  description: string;
+  // Whether the provider has everything it needs (API keys etc.) to start
+  isConfigured: () => boolean;
+  // Whether the engine can emit "translation" events for the target languages
+  supportsTranslation: boolean;
+  // Whether the engine can detect the spoken language on its own
+  supportsAutoDetect: boolean;
+  // Whether the engine follows speakers switching language mid-session
+  supportsCodeSwitching: boolean;
+  // Whether the engine takes the vocabulary session option into account
+  supportsCustomVocabulary: boolean;
+  // Whether the engine transcribes the captured PCM; if not, it listens to the
+  // default microphone itself and the capture source does not apply
+  usesCapturedAudio: boolean;
+  startSession: (options: SttSessionOptions) => Promise<SttSession>;
+}
@@ -0,0 +1,124 @@
+import { getLanguageName } from "@/lib/languages";
+import type { ChatMessage } from "@/lib/llm";
+
+export interface ActionItem {
+  task: string;
+  // Null when nobody was named
+  owner: string | null;
+}
+
+export interface MeetingNotes {
+  summary: string;
+  actionItems: ActionItem[];
+  decisions: string[];
+}
+
+export interface MeetingSummary {
+  // Notes in the language of the transcript, and the same notes translated
+  source: MeetingNotes;
+  target: MeetingNotes;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Number of transcript segments, from the start, the summary covers
+  segmentCount: number;
+  // Set on the summary made once the recording stopped
+  isFinal: boolean;
+}
+
+// Choices for how many new segments trigger a new rolling summary
+export const SUMMARY_INTERVALS = [3, 5, 10, 20];
+export const DEFAULT_SUMMARY_INTERVAL = 5;
+
+const NOTES_SHAPE =
+  '{"summary": string, "actionItems": [{"task": string, "owner": string | null}], "decisions": [string]}';
+
+interface SummaryRequest {
+  // Transcript segments the summary does not cover yet
+  segments: string[];
+  // Notes covering the earlier part of the meeting, to be updated
+  previous?: MeetingNotes;
+  sourceLanguage: string;
+  targetLanguage: string;
+  isFinal: boolean;
+}
+
+export const buildSummaryMessages = ({
+  segments,
+  previous,
+  sourceLanguage,
+  targetLanguage,
+  isFinal,
+}: SummaryRequest): ChatMessage[] => {
+  const source =
+    sourceLanguage == "Auto-Detect"
+      ? "the language of the transcript"
+      : getLanguageName(sourceLanguage);
+
+  const instructions = [
+    "You take notes of a live meeting from its speech transcript: a concise summary, the action items with their owner, and the decisions taken.",
+    "Only include what the transcript says; use null as the owner when nobody was named.",
+    `Reply with JSON only, in this shape: {"source": ${NOTES_SHAPE}, "target": ${NOTES_SHAPE}}.`,
+    `"source" is written in ${source}; "target" has the same content in ${getLanguageName(
+      targetLanguage
+    )}.`,
+  ];
+  if (previous) {
+    instructions.push(
+      "Update these notes of the earlier part of the meeting with the new part of the transcript, keeping what still holds:",
+      JSON.stringify(previous)
+    );
+  }
+  if (isFinal) {
+    instructions.push(
+      "The meeting has ended; write the final, complete version of the notes."
+    );
+  }
+
+  return [
+    { role: "system", content: instructions.join("\n") },
+    {
+      role: "user",
+      content: segments.join("\n") || "(No new transcript since the notes above.)",
+    },
+  ];
+};
+
+interface RawNotes {
+  summary?: unknown;
+  actionItems?: { task?: unknown; owner?: unknown }[];
+  decisions?: unknown[];
+}
+
+const toNotes = (raw: RawNotes | undefined): MeetingNotes => ({
+  summary: typeof raw?.summary === "string" ? raw.summary.trim() : "",
+  actionItems: (Array.isArray(raw?.actionItems) ? raw.actionItems : [])
+    .filter((item) => typeof item?.task === "string" && item.task.trim())
+    .map((item) => ({
+      task: (item.task as string).trim(),
+      owner:
+        typeof item.owner === "string" && item.owner.trim()
+          ? item.owner.trim()
+          : null,
+    })),
+  decisions: (Array.isArray(raw?.decisions) ? raw.decisions : [])
+    .filter((decision): decision is string => typeof decision === "string")
+    .map((decision) => decision.trim())
+    .filter(Boolean),
+});
+
+// Parse the model's reply, tolerating text or code fences around the JSON
+export const parseMeetingNotes = (
+  reply: string
+): { source: MeetingNotes; target: MeetingNotes } => {
+  try {
+    const parsed = JSON.parse(
+      reply.slice(reply.indexOf("{"), reply.lastIndexOf("}") + 1)
+    );
+    return {
+      source: toNotes(parsed.source),
+      target: toNotes(parsed.target ?? parsed.source),
+    };
+  } catch {
+    throw new Error("The LLM did not return a valid summary");
+  }
+};
@@ -0,0 +1,82 @@
+import type { SttUtterance } from "@/lib/stt";
+
+// A finalized utterance of the running transcript
+export type TranscriptSegment = SttUtterance;
+
+// Chinese and Japanese characters and punctuation
+const CJK_END = /[\u3000-\u30ff\u4e00-\u9fff\uff00-\uffef]$/;
+
+// Whether a space goes between two consecutive transcript chunks
+export const needsSpaceBetween = (prevText: string, newTextChunk: string) =>
+  // Check if prevText ends with a space, or if newTextChunk starts with space
+  prevText.length > 0 &&
+  newTextChunk.length > 0 &&
+  !prevText.endsWith(" ") &&
+  !newTextChunk.startsWith(" ") &&
+  !CJK_END.test(prevText); // Scripts written without spaces are joined directly
+
+// Append a transcript chunk, inserting a space between chunks when needed
+export const appendTextChunk = (prevText: string, newTextChunk: string) =>
+  prevText + (needsSpaceBetween(prevText, newTextChunk) ? " " : "") + newTextChunk;
+
+export const joinTextChunks = (chunks: string[]) =>
+  chunks.reduce((text, chunk) => appendTextChunk(text, chunk), "");
+
+// Number of segments, from the start, that all have a translation
+export const countTranslatedSegments = (
+  segments: TranscriptSegment[],
+  translations: Record<string, string>
+) => {
+  const index = segments.findIndex(
+    (segment) => translations[segment.id] === undefined
+  );
+  return index === -1 ? segments.length : index;
+};
+
+// Assemble the translated transcript from per-segment translations. Only the
+// contiguous run of translated segments from the start is included, so the
+// result only ever grows at the end even when translations resolve out of order.
+export const assembleTranslatedText = (
+  segments: TranscriptSegment[],
+  translations: Record<string, string>
+) =>
+  joinTextChunks(
+    segments
+      .slice(0, countTranslatedSegments(segments, translations))
+      .map((segment) => translations[segment.id])
+  );
+
+// Sentence-ending punctuation, optionally followed by closing quotes or
+// brackets. Latin punctuation only ends a sentence before whitespace or the
+// end of the text; CJK punctuation always does.
+const SENTENCE_END =
+  /[.?!…]+["'”’)\]]*(?=\s|$)|[。？！]+["'”’」』)\]]*/g;
+
+// Split off the complete sentences at the start of a text. `consumed` is the
+// number of characters they cover, including trailing whitespace; the rest
+// of the text is an unfinished sentence.
+export const splitCompleteSentences = (text: string) => {
+  const sentences: string[] = [];
+  let consumed = 0;
+
+  for (const match of text.matchAll(SENTENCE_END)) {
+    const end = match.index! + match[0].length;
+    const sentence = text.substring(consumed, end).trim();
+    if (sentence) sentences.push(sentence);
+    consumed = end;
+    while (consumed < text.length && /\s/.test(text[consumed])) consumed++;
+  }
+
+  return { sentences, consumed };
+};
+
+// Position in the recording as m:ss, or h:mm:ss from one hour on
+export const formatTimestamp = (seconds: number) => {
+  const total = Math.max(0, Math.floor(seconds));
+  const hours = Math.floor(total / 3600);
+  const minutes = Math.floor((total % 3600) / 60);
+  const secs = String(total % 60).padStart(2, "0");
+  return hours > 0
+    ? `${hours}:${String(minutes).padStart(2, "0")}:${secs}`
+    : `${minutes}:${secs}`;
+};
@@ -0,0 +1,37 @@
+export type TranslationProviderId = "azure" | "gladia" | "llm";
+
+export interface TranslationProviderInfo {
+  id: TranslationProviderId;
+  name: string;
+  description: string;
+}
+
+export const TRANSLATION_PROVIDERS: TranslationProviderInfo[] = [
+  {
+    id: "azure",
+    name: "Azure Translator",
+    description: "Translates each transcript with a separate Azure Translator request.",
+  },
+  {
+    id: "llm",
+    name: "LLM",
+    description:
+      "Translates with the LLM configured below, using the preceding transcript as context. The translation appears as it is generated.",
+  },
+  {
+    id: "gladia",
+    name: "Gladia realtime translation",
+    description:
+      "Uses the translations streamed by the Gladia session. No Azure key required; only available with the Gladia engine.",
+  },
+];
+
+export const DEFAULT_TRANSLATION_PROVIDER_ID: TranslationProviderId = "azure";
+
+// Provider currently selected in the settings
+export const getSelectedTranslationProviderId = (): TranslationProviderId => {
+  const stored = localStorage.getItem("translation_provider");
+  return TRANSLATION_PROVIDERS.some((provider) => provider.id === stored)
+    ? (stored as TranslationProviderId)
+    : DEFAULT_TRANSLATION_PROVIDER_ID;
+};
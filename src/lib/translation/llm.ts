@@ -0,0 +1,60 @@
+import { getLanguageName } from "@/lib/languages";
+import type { GlossaryEntry } from "@/lib/glossary";
+import type { ChatMessage } from "@/lib/llm";
+
+interface LlmTranslationRequest {
+  text: string;
+  sourceLanguage: string;
+  targetLanguage: string;
+  // Preceding transcript segments, oldest first
+  context: string[];
+  // Glossary entries whose term occurs in the text
+  glossary: GlossaryEntry[];
+  tone: string;
+}
+
+export const buildTranslationMessages = ({
+  text,
+  sourceLanguage,
+  targetLanguage,
+  context,
+  glossary,
+  tone,
+}: LlmTranslationRequest): ChatMessage[] => {
+  const source =
+    sourceLanguage == "Auto-Detect"
+      ? "the language it is in"
+      : getLanguageName(sourceLanguage);
+  const target = getLanguageName(targetLanguage);
+
+  const instructions = [
+    `You are a live interpreter. Translate the user's message from ${source} into ${target}.`,
+    "The message is a segment of a live speech transcript and may be an unfinished sentence; translate it as it is.",
+    "Reply with the translation only, without quotes, notes or explanations.",
+  ];
+  if (tone.trim()) {
+    instructions.push(`Use this tone: ${tone.trim()}.`);
+  }
+  if (glossary.length > 0) {
+    instructions.push(
+      "Translate these terms exactly as given:",
+      ...glossary.map((entry) => {
+        const fixed = entry.translations[targetLanguage]?.trim();
+        return fixed
+          ? `- "${entry.term.trim()}" as "${fixed}"`
+          : `- "${entry.term.trim()}" unchanged`;
+      })
+    );
+  }
+  if (context.length > 0) {
+    instructions.push(
+      "The transcript so far, for context only; do not translate it:",
+      ...context.map((segment) => `> ${segment}`)
+    );
+  }
+
+  return [
+    { role: "system", content: instructions.join("\n") },
+    { role: "user", content: text },
+  ];
+};
@@ -0,0 +1,117 @@
+import type { PreparedSpeech, TtsProvider } from "./types";
+
+// Languages whose browser voices are tagged with a different primary subtag
+const LANGUAGE_ALIASES: Record<string, string[]> = {
+  no: ["nb", "nn", "no"],
+};
+
+// How long to wait for the browser to load its voice list
+const VOICES_TIMEOUT_MS = 1000;
+
+const isSupported = () =>
+  typeof window !== "undefined" && "speechSynthesis" in window;
+
+// Some platforms report tags like "en_US"
+const normalizeTag = (tag: string) => tag.replace(/_/g, "-").toLowerCase();
+
+// Chrome loads voices asynchronously and returns an empty list until then
+const loadVoices = (): Promise<SpeechSynthesisVoice[]> => {
+  const voices = speechSynthesis.getVoices();
+  if (voices.length > 0) return Promise.resolve(voices);
+
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      speechSynthesis.removeEventListener("voiceschanged", done);
+      resolve(speechSynthesis.getVoices());
+    };
+    const timer = setTimeout(done, VOICES_TIMEOUT_MS);
+    speechSynthesis.addEventListener("voiceschanged", done);
+  });
+};
+
+// Pick the voice for a BCP-47 language tag: an exact match first, otherwise a
+// voice for the same language, preferring the browser default and local voices
+export const findBrowserVoice = (
+  language: string,
+  voices: SpeechSynthesisVoice[]
+): SpeechSynthesisVoice | null => {
+  const tag = normalizeTag(language);
+  const primary = tag.split("-")[0];
+  const primaries = LANGUAGE_ALIASES[primary] || [primary];
+
+  const exact = voices.filter((voice) => normalizeTag(voice.lang) === tag);
+  const candidates = exact.length
+    ? exact
+    : voices.filter((voice) =>
+        primaries.includes(normalizeTag(voice.lang).split("-")[0])
+      );
+
+  return (
+    candidates.find((voice) => voice.default) ||
+    candidates.find((voice) => voice.localService) ||
+    candidates[0] ||
+    null
+  );
+};
+
+const prepareSpeech = async (
+  text: string,
+  language: string
+): Promise<PreparedSpeech> => {
+  if (!isSupported()) {
+    throw new Error("Speech synthesis is not supported in this browser");
+  }
+
+  const voice = findBrowserVoice(language, await loadVoices());
+  const utterance = new SpeechSynthesisUtterance(text);
+  utterance.lang = voice?.lang || language;
+  if (voice) utterance.voice = voice;
+
+  const ended = new Promise<void>((resolve, reject) => {
+    utterance.onend = () => resolve();
+    utterance.onerror = (event) => {
+      // Cancelling is how playback is stopped, not a failure
+      if (event.error === "interrupted" || event.error === "canceled") {
+        resolve();
+      } else {
+        reject(new Error(`Speech synthesis failed: ${event.error}`));
+      }
+    };
+  });
+  // Failures are reported to whoever waits for playback
+  ended.catch(() => {});
+
+  let started = false;
+  let released = false;
+
+  return {
+    play: async () => {
+      if (released) return;
+      if (!started) {
+        started = true;
+        speechSynthesis.speak(utterance);
+      }
+      // The synthesis queue is global and may still be paused from earlier
+      if (speechSynthesis.paused) speechSynthesis.resume();
+    },
+    pause: () => {
+      if (started) speechSynthesis.pause();
+    },
+    ended,
+    release: () => {
+      if (released) return;
+      released = true;
+      if (started) speechSynthesis.cancel();
+    },
+  };
+};
+
+export const browserProvider: TtsProvider = {
+  id: "browser",
+  name: "Browser voices",
+  description:
+    "Free voices built into the browser and operating system. Works offline with local voices; quality varies by platform.",
+  isConfigured: isSupported,
+  prepareSpeech,
+};
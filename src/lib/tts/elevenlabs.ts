@@ -0,0 +1,178 @@
+import { getSecret } from "@/lib/secrets";
+import { getVoiceId } from "./voices";
+import { getActiveTtsProfile } from "./profiles";
+import type { PreparedSpeech, TtsProvider, TtsSpeechOptions } from "./types";
+
+const STREAM_MIME_TYPE = "audio/mpeg";
+
+const canStreamAudio = () =>
+  typeof MediaSource !== "undefined" &&
+  MediaSource.isTypeSupported(STREAM_MIME_TYPE);
+
+const getApiKey = () => getSecret("elevenlabs_api_key");
+
+interface LoadedAudio {
+  audio: HTMLAudioElement;
+  release: () => void;
+}
+
+// Feed a streaming response into a MediaSource so playback can begin with the
+// first chunk instead of after the whole file was downloaded
+const createStreamingAudio = async (
+  reader: ReadableStreamDefaultReader<Uint8Array>,
+  firstChunk: Uint8Array
+): Promise<LoadedAudio> => {
+  const mediaSource = new MediaSource();
+  const audioUrl = URL.createObjectURL(mediaSource);
+  const audio = new Audio(audioUrl);
+
+  await new Promise((resolve) =>
+    mediaSource.addEventListener("sourceopen", resolve, { once: true })
+  );
+  const sourceBuffer = mediaSource.addSourceBuffer(STREAM_MIME_TYPE);
+
+  const append = (chunk: Uint8Array) =>
+    new Promise((resolve) => {
+      sourceBuffer.addEventListener("updateend", resolve, { once: true });
+      sourceBuffer.appendBuffer(chunk);
+    });
+
+  let released = false;
+  const pumpChunks = async () => {
+    await append(firstChunk);
+    for (;;) {
+      const { done, value } = await reader.read();
+      if (released) return;
+      if (done) break;
+      await append(value);
+    }
+    if (mediaSource.readyState === "open") mediaSource.endOfStream();
+  };
+  pumpChunks().catch((err) => {
+    if (!released) console.error("Text-to-speech streaming error:", err);
+    if (mediaSource.readyState === "open") mediaSource.endOfStream("network");
+  });
+
+  return {
+    audio,
+    release: () => {
+      released = true;
+      reader.cancel().catch(() => {});
+      URL.revokeObjectURL(audioUrl);
+    },
+  };
+};
+
+const toPreparedSpeech = (
+  { audio, release }: LoadedAudio,
+  firstByteMs: number
+): PreparedSpeech => {
+  const ended = new Promise<void>((resolve, reject) => {
+    audio.onended = () => resolve();
+    audio.onerror = () => reject(new Error("Audio playback failed"));
+  });
+  // Failures are reported to whoever waits for playback
+  ended.catch(() => {});
+
+  return {
+    play: () => audio.play(),
+    pause: () => audio.pause(),
+    ended,
+    firstByteMs,
+    release: () => {
+      audio.pause();
+      release();
+    },
+  };
+};
+
+const prepareSpeech = async (
+  text: string,
+  language: string,
+  { signal, voiceId, apiKey, profile }: TtsSpeechOptions
+): Promise<PreparedSpeech> => {
+  const elevenlabsKey = apiKey || getApiKey();
+
+  if (!elevenlabsKey) {
+    throw new Error("ElevenLabs API key not configured");
+  }
+
+  const streaming =
+    localStorage.getItem("elevenlabs_streaming") === "true" && canStreamAudio();
+  const settings = profile || getActiveTtsProfile();
+  const endpoint = `https://api.elevenlabs.io/v1/text-to-speech/${
+    voiceId || getVoiceId(language)
+  }${streaming ? "/stream" : ""}?output_format=${settings.outputFormat}`;
+
+  const requestStart = performance.now();
+  const response = await fetch(endpoint, {
+    method: "POST",
+    headers: {
+      Accept: STREAM_MIME_TYPE,
+      "xi-api-key": elevenlabsKey,
+      "Content-Type": "application/json",
+    },
+    body: JSON.stringify({
+      text,
+      model_id: settings.modelId,
+      voice_settings: {
+        stability: settings.stability,
+        similarity_boost: settings.similarityBoost,
+        style: settings.style,
+        use_speaker_boost: settings.useSpeakerBoost,
+      },
+    }),
+    signal,
+  });
+
+  if (!response.ok) {
+    // Quota and voice errors come with an explanation in the body
+    const body = await response.json().catch(() => null);
+    throw new Error(
+      `Text-to-speech failed: ${body?.detail?.message || response.statusText}`
+    );
+  }
+
+  if (!response.body) throw new Error("Text-to-speech returned no audio");
+
+  // Time to the first chunk of the body, not just the headers
+  const reader = response.body.getReader();
+  const { done, value } = await reader.read();
+  const firstByteMs = performance.now() - requestStart;
+  if (done || !value) throw new Error("Text-to-speech returned no audio");
+
+  if (streaming) {
+    return toPreparedSpeech(
+      await createStreamingAudio(reader, value),
+      firstByteMs
+    );
+  }
+
+  const chunks: Uint8Array[] = [value];
+  for (;;) {
+    const chunk = await reader.read();
+    if (chunk.done) break;
+    chunks.push(chunk.value);
+  }
+  const audioBlob = new Blob(chunks, {
+    type: response.headers.get("Content-Type") || STREAM_MIME_TYPE,
+  });
+  const audioUrl = URL.createObjectURL(audioBlob);
+
+  return toPreparedSpeech(
+    {
+      audio: new Audio(audioUrl),
+      release: () => URL.revokeObjectURL(audioUrl),
+    },
+    firstByteMs
+  );
+};
+
+export const elevenLabsProvider: TtsProvider = {
+  id: "elevenlabs",
+  name: "ElevenLabs",
+  description:
+    "Natural neural voices. Falls back to the browser voices when ElevenLabs fails or runs out of quota.",
+  isConfigured: () => !!getApiKey(),
+  prepareSpeech,
+};
@@ -0,0 +1,19 @@
+import { elevenLabsProvider } from "./elevenlabs";
+import { browserProvider } from "./browser";
+import type { TtsProvider } from "./types";
+
+export type * from "./types";
+
+export const TTS_PROVIDERS: TtsProvider[] = [elevenLabsProvider, browserProvider];
+
+export const DEFAULT_TTS_PROVIDER_ID = elevenLabsProvider.id;
+
+// Provider used when the selected one is not configured or fails
+export const FALLBACK_TTS_PROVIDER = browserProvider;
+
+export const getTtsProvider = (id?: string | null): TtsProvider =>
+  TTS_PROVIDERS.find((provider) => provider.id === id) || elevenLabsProvider;
+
+// Provider currently selected in the settings
+export const getSelectedTtsProvider = (): TtsProvider =>
+  getTtsProvider(localStorage.getItem("tts_provider"));
@@ -0,0 +1,96 @@
+// Named set of synthesis settings, e.g. a calm voice for demos and the
+// fastest model for live sessions
+export interface TtsProfile {
+  id: string;
+  name: string;
+  modelId: string;
+  outputFormat: string;
+  // ElevenLabs voice_settings, 0-1
+  stability: number;
+  similarityBoost: number;
+  style: number;
+  useSpeakerBoost: boolean;
+}
+
+export const ELEVENLABS_MODELS = [
+  {
+    id: "eleven_multilingual_v2",
+    name: "Multilingual v2",
+    description: "Most natural voice, highest latency",
+  },
+  {
+    id: "eleven_turbo_v2_5",
+    name: "Turbo v2.5",
+    description: "Low latency with good quality",
+  },
+  {
+    id: "eleven_flash_v2_5",
+    name: "Flash v2.5",
+    description: "Lowest latency, for live sessions",
+  },
+];
+
+// Only MP3 formats, which both the audio element and streaming playback can decode
+export const OUTPUT_FORMATS = [
+  { id: "mp3_22050_32", name: "MP3 22.05 kHz, 32 kbps" },
+  { id: "mp3_44100_64", name: "MP3 44.1 kHz, 64 kbps" },
+  { id: "mp3_44100_128", name: "MP3 44.1 kHz, 128 kbps" },
+  { id: "mp3_44100_192", name: "MP3 44.1 kHz, 192 kbps" },
+];
+
+export const DEFAULT_TTS_PROFILE: TtsProfile = {
+  id: "default",
+  name: "Default",
+  modelId: "eleven_multilingual_v2",
+  outputFormat: "mp3_44100_128",
+  stability: 0.7,
+  similarityBoost: 1.0,
+  style: 1.0,
+  useSpeakerBoost: true,
+};
+
+export interface TtsProfileSettings {
+  profiles: TtsProfile[];
+  activeProfileId: string;
+}
+
+const STORAGE_KEY = "tts_profiles";
+
+export const loadTtsProfileSettings = (): TtsProfileSettings => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+    const profiles: TtsProfile[] = (stored.profiles || []).map(
+      (profile: Partial<TtsProfile>) => ({ ...DEFAULT_TTS_PROFILE, ...profile })
+    );
+    if (profiles.length === 0) profiles.push(DEFAULT_TTS_PROFILE);
+
+    const activeProfileId = profiles.some(
+      (profile) => profile.id === stored.activeProfileId
+    )
+      ? stored.activeProfileId
+      : profiles[0].id;
+    return { profiles, activeProfileId };
+  } catch {
+    return {
+      profiles: [DEFAULT_TTS_PROFILE],
+      activeProfileId: DEFAULT_TTS_PROFILE.id,
+    };
+  }
+};
+
+export const saveTtsProfileSettings = (settings: TtsProfileSettings) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
+};
+
+export const getActiveTtsProfile = (
+  settings: TtsProfileSettings = loadTtsProfileSettings()
+) =>
+  settings.profiles.find((profile) => profile.id === settings.activeProfileId) ||
+  settings.profiles[0];
+
+// Copy of a profile under a new name, to start a new profile from
+export const createTtsProfile = (base: TtsProfile, name: string): TtsProfile => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name,
+});
@@ -0,0 +1,38 @@
+import type { TtsProfile } from "./profiles";
+
+// Synthesized speech ready to be played once
+export interface PreparedSpeech {
+  // Start or resume playback; rejects if playback cannot start
+  play: () => Promise<void>;
+  pause: () => void;
+  // Settles once playback finished, rejecting if it failed
+  ended: Promise<void>;
+  // Milliseconds from sending the request to receiving the first audio bytes,
+  // for providers that synthesize remotely
+  firstByteMs?: number;
+  // Stop playback and any remaining download and free the audio resources
+  release: () => void;
+}
+
+export interface TtsSpeechOptions {
+  signal?: AbortSignal;
+  // Voice to use instead of the one configured for the language
+  voiceId?: string;
+  // Key to use instead of the saved one, e.g. while editing the settings
+  apiKey?: string;
+  // Settings to use instead of the active profile
+  profile?: TtsProfile;
+}
+
+export interface TtsProvider {
+  id: string;
+  name: string;
+  description: string;
+  // Whether the provider has everything it needs (API keys etc.) to speak
+  isConfigured: () => boolean;
+  prepareSpeech: (
+    text: string,
+    language: string,
+    options: TtsSpeechOptions
+  ) => Promise<PreparedSpeech>;
+}
@@ -0,0 +1,106 @@
+// Language code mapping for ElevenLabs voices, used when no voice was chosen
+export const DEFAULT_VOICE_MAPPING: { [key: string]: string } = {
+  en: "9BWtsMINqrJLrRacOk9x", // Aria
+  es: "EXAVITQu4vr4xnSDxMaL", // Sarah
+  fr: "FGY2WhTYpPnrIDTdsKH5", // Laura
+  de: "CwhRBWXzGAHq8TQ4Fs17", // Roger
+  it: "IKne3meq5aSn9XLyUdCD", // Charlie
+  pt: "TX3LPaxmHKxFdv7VOQHJ", // Liam
+  ru: "N2lVS1w4EtoT3dr4eOWO", // Callum
+  ja: "SAz9YHcvj6GT2YYXdXww", // River
+  ko: "JBFqnCBsd6RMkjVDRZzb", // George
+  zh: "XB0fDUnXU5powFXDhCwa", // Charlotte
+  ar: "Xb7hH8MSUJpSbSDYk0k2", // Alice
+  hi: "XrExE9yKIg1WjnnlVkGX", // Matilda
+  default: "9BWtsMINqrJLrRacOk9x", // Aria (English)
+};
+
+// Voices chosen in the settings, by language code
+export type VoiceMapping = Record<string, string>;
+
+const STORAGE_KEY = "tts_voice_mapping";
+
+export const loadVoiceMapping = (): VoiceMapping => {
+  try {
+    return JSON.parse(localStorage.getItem(STORAGE_KEY) || "{}");
+  } catch {
+    return {};
+  }
+};
+
+export const saveVoiceMapping = (mapping: VoiceMapping) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(mapping));
+};
+
+// Chosen voice for a language, falling back to the built-in table
+export const getDefaultVoiceId = (language: string) =>
+  DEFAULT_VOICE_MAPPING[language] || DEFAULT_VOICE_MAPPING["default"];
+
+export const getVoiceId = (
+  language: string,
+  mapping: VoiceMapping = loadVoiceMapping()
+) => mapping[language] || getDefaultVoiceId(language);
+
+// Sentences used to preview a voice in each language
+export const SAMPLE_SENTENCES: { [key: string]: string } = {
+  en: "Hello, this is how I will sound when I read your translations.",
+  es: "Hola, así es como sonaré cuando lea tus traducciones.",
+  fr: "Bonjour, voici comment je sonnerai en lisant vos traductions.",
+  de: "Hallo, so klinge ich, wenn ich Ihre Übersetzungen vorlese.",
+  it: "Ciao, ecco come suonerò quando leggerò le tue traduzioni.",
+  pt: "Olá, é assim que vou soar ao ler as suas traduções.",
+  ru: "Здравствуйте, так я буду звучать, читая ваши переводы.",
+  ja: "こんにちは。翻訳を読み上げるときは、このような声になります。",
+  ko: "안녕하세요. 번역을 읽어 드릴 때 이런 목소리로 들립니다.",
+  zh: "你好，这是我朗读翻译时的声音。",
+  ar: "مرحبًا، هكذا سيبدو صوتي عندما أقرأ ترجماتك.",
+  hi: "नमस्ते, आपके अनुवाद पढ़ते समय मेरी आवाज़ ऐसी होगी।",
+  nl: "Hallo, zo klink ik wanneer ik je vertalingen voorlees.",
+  pl: "Cześć, tak będę brzmieć, czytając Twoje tłumaczenia.",
+  tr: "Merhaba, çevirilerinizi okurken sesim böyle olacak.",
+  sv: "Hej, så här låter jag när jag läser upp dina översättningar.",
+  da: "Hej, sådan lyder jeg, når jeg læser dine oversættelser op.",
+  no: "Hei, slik høres jeg ut når jeg leser oversettelsene dine.",
+  fi: "Hei, tältä kuulostan, kun luen käännöksesi ääneen.",
+  cs: "Dobrý den, takto budu znít při čtení vašich překladů.",
+  hu: "Helló, így fogok szólni, amikor felolvasom a fordításaidat.",
+  ro: "Bună, așa voi suna când îți voi citi traducerile.",
+  uk: "Привіт, так я звучатиму, коли читатиму ваші переклади.",
+  bg: "Здравейте, така ще звуча, когато чета вашите преводи.",
+  hr: "Bok, ovako ću zvučati dok čitam vaše prijevode.",
+  sk: "Dobrý deň, takto budem znieť pri čítaní vašich prekladov.",
+  sl: "Pozdravljeni, tako bom zvenel, ko bom bral vaše prevode.",
+  et: "Tere, nii kõlan ma, kui loen teie tõlkeid ette.",
+  lv: "Sveiki, šādi es skanēšu, lasot jūsu tulkojumus.",
+  lt: "Sveiki, taip skambėsiu skaitydamas jūsų vertimus.",
+};
+
+export const getSampleSentence = (language: string) =>
+  SAMPLE_SENTENCES[language] || SAMPLE_SENTENCES["en"];
+
+export interface ElevenLabsVoice {
+  voice_id: string;
+  name: string;
+  category?: string;
+  labels?: Record<string, string>;
+}
+
+// List the voices available to an ElevenLabs account, including its own
+export const fetchElevenLabsVoices = async (
+  apiKey: string,
+  signal?: AbortSignal
+): Promise<ElevenLabsVoice[]> => {
+  const response = await fetch("https://api.elevenlabs.io/v1/voices", {
+    headers: { "xi-api-key": apiKey },
+    signal,
+  });
+
+  if (!response.ok) {
+    throw new Error(`Loading voices failed: ${response.statusText}`);
+  }
+
+  const data = await response.json();
+  return (data.voices || []).sort((a: ElevenLabsVoice, b: ElevenLabsVoice) =>
+    a.name.localeCompare(b.name)
+  );
+};
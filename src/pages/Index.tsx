@@ -1,187 +1,616 @@
-import React, { useState, useRef, useEffect, useCallback } from "react";
+import React, { useState, useRef, useEffect, useCallback, useMemo } from "react";
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Settings, Mic, MicOff, Volume2 } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import {
+  Settings,
+  Mic,
+  MicOff,
+  Volume2,
+  Loader2,
+  ArrowLeftRight,
+  Trash2,
+  Lock,
+} from "lucide-react";
 import LanguageSelector from "@/components/LanguageSelector";
+import TargetLanguagesSelector from "@/components/TargetLanguagesSelector";
 import AudioVisualizer from "@/components/AudioVisualizer";
 import TranscriptionDisplay from "@/components/TranscriptionDisplay";
+import ConversationView from "@/components/ConversationView";
+import FaceToFaceView from "@/components/FaceToFaceView";
+import MeetingSummaryPanel from "@/components/MeetingSummaryPanel";
+import KeyVaultUnlock from "@/components/KeyVaultUnlock";
+import TranscriptChat from "@/components/TranscriptChat";
 import SettingsModal from "@/components/SettingsModal";
-import { useAudioRecording } from "@/hooks/useAudioRecording";
+import SpeechQueueControls from "@/components/SpeechQueueControls";
+import MicrophoneSelector from "@/components/MicrophoneSelector";
+import CaptureSourceSelector, {
+  CaptureGainControls,
+} from "@/components/CaptureSourceSelector";
+import {
+  useAudioRecording,
+  type ConnectionState,
+} from "@/hooks/useAudioRecording";
 import { useTranslation } from "@/hooks/useTranslation";
 import { useTextToSpeech } from "@/hooks/useTextToSpeech";
+import { useSpeechQueue } from "@/hooks/useSpeechQueue";
+import { useConversation } from "@/hooks/useConversation";
+import { useIsMobile } from "@/hooks/use-mobile";
+import { useMeetingSummary } from "@/hooks/useMeetingSummary";
+import { useTranscriptQuestions } from "@/hooks/useTranscriptQuestions";
+import { useKeyVault } from "@/hooks/useKeyVault";
+import type { Speaker } from "@/lib/conversation";
+import { getSelectedSttProvider, getSttLimitations } from "@/lib/stt";
+import { getSelectedTranslationProviderId } from "@/lib/translation";
+import { isLlmConfigured } from "@/lib/llm";
+import { getSecret } from "@/lib/secrets";
+import { DEFAULT_SUMMARY_INTERVAL, SUMMARY_INTERVALS } from "@/lib/summary";
+import { saveSession } from "@/lib/sessions";
+import { LANGUAGES, getLanguageName } from "@/lib/languages";
+import {
+  joinTextChunks,
+  splitCompleteSentences,
+  type TranscriptSegment,
+} from "@/lib/transcript";
+import { useSegmentTranslations } from "@/hooks/useSegmentTranslations";
+import { useAudioInputDevices } from "@/hooks/useAudioInputDevices";
+import {
+  loadAudioInputSettings,
+  saveAudioInputSettings,
+  type AudioInputSettings,
+} from "@/lib/audio/inputSettings";
+import {
+  CAPTURE_SOURCES,
+  DEFAULT_CAPTURE_GAINS,
+  type CaptureSource,
+} from "@/lib/audio/captureSource";
+
+const CONNECTION_STATUS: Record<
+  ConnectionState,
+  { label: string; dotClassName: string }
+> = {
+  idle: { label: "Disconnected", dotClassName: "bg-red-500" },
+  connecting: { label: "Connecting...", dotClassName: "bg-amber-500 animate-pulse" },
+  connected: { label: "Connected", dotClassName: "bg-green-500" },
+  reconnecting: { label: "Reconnecting...", dotClassName: "bg-amber-500 animate-pulse" },
+  failed: { label: "Connection failed", dotClassName: "bg-red-600" },
+};
+
+const MAX_TARGET_LANGUAGES = 4;
+
+// One translation column per target language
+const TRANSLATION_COLUMNS: Record<number, string> = {
+  1: "grid-cols-1",
+  2: "grid-cols-1 md:grid-cols-2",
+  3: "grid-cols-1 md:grid-cols-3",
+  4: "grid-cols-1 md:grid-cols-2 xl:grid-cols-4",
+};
+
+// Radix Select does not accept empty values, so "do not speak" gets a sentinel
+const NO_SPEECH_VALUE = "__none__";
+
+// One-way translation of a speaker, or a two-way conversation between two
+// people sharing the device
+type AppMode = "translate" | "conversation";
 
 const Index = () => {
   const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [mode, setMode] = useState<AppMode>(() =>
+    localStorage.getItem("app_mode") === "conversation"
+      ? "conversation"
+      : "translate"
+  );
+  const isConversation = mode === "conversation";
+  const [languageA, setLanguageA] = useState("en");
+  const [languageB, setLanguageB] = useState("es");
+  // Participant holding the floor in a tap-to-talk turn; null while the
+  // engine tells the speakers apart by language
+  const [activeSpeaker, setActiveSpeaker] = useState<Speaker | null>(null);
+  const isMobile = useIsMobile();
+  // Re-renders once the key vault is unlocked
+  const { isLocked: areKeysLocked } = useKeyVault();
   const [sourceLanguage, setSourceLanguage] = useState("Auto-Detect");
-  const [targetLanguage, setTargetLanguage] = useState("es");
-  const [sourceText, setSourceText] = useState("");
-  const [translatedText, setTranslatedText] = useState("");
+  const [targetLanguages, setTargetLanguages] = useState(["es"]);
+  // Target whose translation is spoken, or null for none
+  const [spokenLanguage, setSpokenLanguage] = useState<string | null>("es");
+  const [segments, setSegments] = useState<TranscriptSegment[]>([]);
   const [isRecording, setIsRecording] = useState(false);
-  const [audioLevel, setAudioLevel] = useState(0);
+  const [audioInput, setAudioInput] = useState<AudioInputSettings>(
+    loadAudioInputSettings
+  );
 
-  // Ref to keep track of the text that has already been spoken
-  const lastSpokenTranslatedTextRef = useRef("");
-  // Timer for debouncing TTS to wait for sentence completion
-  const ttsDebounceTimerRef = useRef(null);
+  const [captureSource, setCaptureSource] = useState<CaptureSource>(() => {
+    const stored = localStorage.getItem("capture_source");
+    return CAPTURE_SOURCES.some((source) => source.id === stored)
+      ? (stored as CaptureSource)
+      : "microphone";
+  });
+  const [captureGains, setCaptureGains] = useState(DEFAULT_CAPTURE_GAINS);
+  const [summaryInterval, setSummaryInterval] = useState(() => {
+    const stored = Number(localStorage.getItem("summary_interval"));
+    return SUMMARY_INTERVALS.includes(stored)
+      ? stored
+      : DEFAULT_SUMMARY_INTERVAL;
+  });
+  const [isSummaryOpen, setIsSummaryOpen] = useState(
+    () => localStorage.getItem("summary_panel_open") !== "false"
+  );
+  // Id under which the transcript of the current or last recording is saved
+  const sessionIdRef = useRef<string | null>(null);
+
+  const { devices: inputDevices, refresh: refreshInputDevices } =
+    useAudioInputDevices();
+
+  // Length of the translated text already queued for speech, and the
+  // languages that text was translated between
+  const enqueuedRef = useRef<{
+    languages: { source: string; target: string } | null;
+    length: number;
+  }>({ languages: null, length: 0 });
+
+  // Providers are re-read on every render so settings changes apply immediately
+  const sttProvider = getSelectedSttProvider();
+  const sttLimitations = getSttLimitations(sttProvider);
+  const translationProviderId = getSelectedTranslationProviderId();
+  const realtimeTranslationEnabled = translationProviderId === "gladia";
+
+  // In a conversation the engine tells the two languages apart and, for
+  // realtime translation, translates into both
+  const conversationLanguages = useMemo(
+    () => [languageA, languageB],
+    [languageA, languageB]
+  );
 
   const {
     startRecording,
     stopRecording,
-    isConnected,
+    connectionState,
+    isFinishing,
+    partialTranscription,
+    getAudioLevels,
     error: audioError,
+    inputNotice,
   } = useAudioRecording({
-    onTranscription: (newTextChunk) => {
-      setSourceText((prevText) => {
-        // This logic ensures proper spacing between chunks
-        // Check if prevText ends with a punctuation or space, or if newTextChunk starts with space
-        const needsSpace =
-          prevText.length > 0 &&
-          newTextChunk.length > 0 &&
-          !prevText.endsWith(" ") &&
-          !newTextChunk.startsWith(" ") &&
-          !/[.?!]$/.test(prevText.trim()); // Also add space if previous doesn't end with punctuation
-
-        return prevText + (needsSpace ? " " : "") + newTextChunk;
-      });
+    onTranscription: (utterance) => {
+      if (isConversation) {
+        addConversationUtterance(utterance, activeSpeaker ?? undefined);
+      } else {
+        setSegments((prev) => [...prev, utterance]);
+      }
     },
-    sourceLanguage,
-    targetLanguage,
+    onTranslation: (utteranceId, text, language) => {
+      if (isConversation) {
+        setConversationTranslation(utteranceId, text, language);
+      } else {
+        setTranslation(utteranceId, text, language);
+      }
+    },
+    // Engines that cannot detect the language only understand speaker A
+    sourceLanguage: isConversation
+      ? sttProvider.supportsAutoDetect
+        ? "Auto-Detect"
+        : languageA
+      : sourceLanguage,
+    languageCandidates: isConversation ? conversationLanguages : undefined,
+    targetLanguages: isConversation ? conversationLanguages : targetLanguages,
+    realtimeTranslation: realtimeTranslationEnabled,
+    audioInput,
+    captureSource,
+    captureGains,
   });
 
+  const handleCaptureSourceChange = (source: CaptureSource) => {
+    setCaptureSource(source);
+    localStorage.setItem("capture_source", source);
+  };
+
+  const handleModeChange = (next: string) => {
+    const nextMode = next as AppMode;
+    setMode(nextMode);
+    localStorage.setItem("app_mode", nextMode);
+  };
+
+  const swapConversationLanguages = () => {
+    setLanguageA(languageB);
+    setLanguageB(languageA);
+  };
+
+  const handleTargetLanguagesChange = (languages: string[]) => {
+    setTargetLanguages(languages);
+    if (spokenLanguage && !languages.includes(spokenLanguage)) {
+      setSpokenLanguage(languages[0]);
+    }
+  };
+
+  const handleInputDeviceChange = (deviceId: string) => {
+    const next = { ...audioInput, deviceId };
+    setAudioInput(next);
+    saveAudioInputSettings(next);
+  };
+
   const {
     translateText,
+    translateToTargets,
+    cancelAll: cancelTranslations,
     isTranslating,
     error: translationError,
   } = useTranslation();
 
-  const { speak, isSpeaking, error: ttsError } = useTextToSpeech();
+  const { prepareSpeech, fallbackReason: ttsFallbackReason } = useTextToSpeech();
 
-  // Auto-translate when source text changes
+  const {
+    enqueue: enqueueSpeech,
+    skip: skipSpeech,
+    clear: clearSpeech,
+    pause: pauseSpeech,
+    resume: resumeSpeech,
+    queueLength: speechQueueLength,
+    currentText: currentSpeechText,
+    isPreparing: isSpeechPreparing,
+    currentFirstByteMs: speechFirstByteMs,
+    isPaused: isSpeechPaused,
+    error: ttsError,
+  } = useSpeechQueue({ prepareSpeech });
+
+  // Each conversation turn is translated into, and spoken in, the language
+  // of the other participant
+  const {
+    turns: conversationTurns,
+    addUtterance: addConversationUtterance,
+    setTranslation: setConversationTranslation,
+    reset: resetConversation,
+  } = useConversation({
+    languageA,
+    languageB,
+    translateText,
+    cancelTranslations,
+    autoTranslate: !realtimeTranslationEnabled,
+    onTranslated: (turn) =>
+      enqueueSpeech(turn.translation!, turn.translationLanguage),
+  });
+
+  const sourceText = useMemo(
+    () => joinTextChunks(segments.map((segment) => segment.text)),
+    [segments]
+  );
+
+  // Each finalized segment is translated once; realtime translations arrive
+  // from the speech-to-text session instead
+  const {
+    targets: translations,
+    setTranslation,
+    reset: resetTranslations,
+  } = useSegmentTranslations({
+    segments,
+    sourceLanguage,
+    targetLanguages,
+    translateToTargets,
+    autoTranslate: !realtimeTranslationEnabled,
+  });
+
+  const llmConfigured = isLlmConfigured();
+  const {
+    summary: meetingSummary,
+    isSummarizing,
+    error: summaryError,
+  } = useMeetingSummary({
+    segments,
+    sourceLanguage,
+    // The first target is the one the notes are translated into
+    targetLanguage: targetLanguages[0],
+    interval: summaryInterval,
+    isRecording,
+    enabled: !isConversation && llmConfigured,
+  });
+
+  const segmentTranslations = useMemo(
+    () =>
+      Object.fromEntries(
+        Object.entries(translations).map(([language, target]) => [
+          language,
+          target.translations,
+        ])
+      ),
+    [translations]
+  );
+  const {
+    questions,
+    isAnswering,
+    ask: askQuestion,
+    clear: clearQuestions,
+  } = useTranscriptQuestions({ segments, translations: segmentTranslations });
+  // Transcript segment a cited answer jumped to
+  const [highlight, setHighlight] = useState<{ segmentId: string } | null>(
+    null
+  );
+
+  // Save the transcript once recording stopped; later translations and the
+  // final summary update the saved copy
   useEffect(() => {
-    if (sourceText && sourceText.trim().length > 0) {
-      const translateAsync = async () => {
-        const translated = await translateText(
-          sourceText,
-          sourceLanguage,
-          targetLanguage
-        );
-        if (translated) {
-          setTranslatedText(translated);
-        }
-      };
-      translateAsync();
-    } else {
-      setTranslatedText("");
-    }
-  }, [sourceText, sourceLanguage, targetLanguage, translateText]);
+    if (isRecording || !sessionIdRef.current || segments.length === 0) return;
+    saveSession({
+      id: sessionIdRef.current,
+      savedAt: Date.now(),
+      sourceLanguage,
+      segments,
+      translations: Object.fromEntries(
+        Object.entries(translations).map(([language, target]) => [
+          language,
+          target.translatedText,
+        ])
+      ),
+      summary: meetingSummary,
+    });
+  }, [isRecording, segments, sourceLanguage, translations, meetingSummary]);
+
+  const handleSummaryIntervalChange = (interval: number) => {
+    setSummaryInterval(interval);
+    localStorage.setItem("summary_interval", String(interval));
+  };
 
-  // Effect to manage Text-to-Speech playback
+  const handleSummaryOpenChange = (isOpen: boolean) => {
+    setIsSummaryOpen(isOpen);
+    localStorage.setItem("summary_panel_open", String(isOpen));
+  };
+
+  const spokenTranslation = spokenLanguage
+    ? translations[spokenLanguage]
+    : undefined;
+  const translatedText = spokenTranslation?.translatedText ?? "";
+  const translatedLanguages = spokenTranslation?.translatedLanguages ?? null;
+  const translatedCount = spokenTranslation?.translatedCount ?? 0;
+
+  // Engines without auto-detection need the spoken language; the browser
+  // language is the best guess
   useEffect(() => {
-    // Clear any existing debounce timer
-    if (ttsDebounceTimerRef.current) {
-      clearTimeout(ttsDebounceTimerRef.current);
+    if (!sttProvider.supportsAutoDetect && sourceLanguage === "Auto-Detect") {
+      const browserLanguage = navigator.language.split("-")[0];
+      setSourceLanguage(
+        LANGUAGES.some((language) => language.code === browserLanguage)
+          ? browserLanguage
+          : "en"
+      );
     }
+  }, [sttProvider.supportsAutoDetect, sourceLanguage]);
 
-    // Don't speak if there's no translated text or if already speaking
-    if (!translatedText.trim() || isSpeaking) {
-      return;
-    }
+  // Drop queued speech in the previously spoken language, and skip what was
+  // translated while another language, or nothing, was spoken
+  useEffect(() => {
+    clearSpeech();
+    enqueuedRef.current.languages = null;
+  }, [spokenLanguage, clearSpeech]);
 
-    // Extract the new, unspoken portion of the translated text
-    const newTranslatedPortion = translatedText
-      .substring(lastSpokenTranslatedTextRef.current.length)
-      .trim();
+  // Queue each completed sentence of the spoken translation exactly once
+  useEffect(() => {
+    if (!translatedLanguages) return;
+    const enqueued = enqueuedRef.current;
 
-    if (!newTranslatedPortion) {
-      // Nothing new to speak
+    // A language change re-translates the history, and switching the spoken
+    // target brings up an existing one; neither must be spoken: skip it once
+    // it is complete
+    if (enqueued.languages !== translatedLanguages) {
+      if (translatedCount < segments.length) return;
+      enqueuedRef.current = {
+        languages: translatedLanguages,
+        length: translatedText.length,
+      };
       return;
     }
 
-    // Heuristic for sentence completion: ends with punctuation or a significant pause indicator.
-    // This is the most challenging part for real-time.
-    const endsWithPunctuation = /[.?!]$/.test(newTranslatedPortion);
-    const endsWithNaturalPause = /[.,;!?]$/.test(newTranslatedPortion); // Consider commas, semicolons as natural pauses too
-
-    // If a sentence is complete, speak it immediately
-    if (endsWithPunctuation) {
-      speak(newTranslatedPortion, targetLanguage);
-      lastSpokenTranslatedTextRef.current = translatedText; // Update reference for spoken text
-    } else if (isRecording) {
-      // If still recording, and no punctuation,
-      // set a debounce to speak if there's a pause in new content.
-      // Adjust this delay (e.g., 500ms to 1000ms) based on desired responsiveness vs. completeness.
-      ttsDebounceTimerRef.current = setTimeout(() => {
-        if (
-          !isSpeaking &&
-          translatedText
-            .substring(lastSpokenTranslatedTextRef.current.length)
-            .trim() === newTranslatedPortion
-        ) {
-          // Speak the current new portion if no new updates arrived during debounce
-          speak(newTranslatedPortion, targetLanguage);
-          lastSpokenTranslatedTextRef.current = translatedText;
-        }
-      }, 700); // Wait 700ms for more content or a punctuation mark
-    } else if (!isRecording && newTranslatedPortion) {
-      // If recording has stopped, speak any remaining new portion immediately
-      speak(newTranslatedPortion, targetLanguage);
-      lastSpokenTranslatedTextRef.current = translatedText;
-    }
+    const pending = translatedText.substring(enqueued.length);
+    const { sentences, consumed } = splitCompleteSentences(pending);
+    sentences.forEach((sentence) =>
+      enqueueSpeech(sentence, translatedLanguages.target)
+    );
+    enqueued.length += consumed;
 
-    // Cleanup function for useEffect
-    return () => {
-      if (ttsDebounceTimerRef.current) {
-        clearTimeout(ttsDebounceTimerRef.current);
-      }
+    const remainder = pending.substring(consumed).trim();
+    if (!remainder) return;
+
+    const enqueueRemainder = () => {
+      enqueueSpeech(remainder, translatedLanguages.target);
+      enqueued.length = translatedText.length;
     };
-  }, [translatedText, isSpeaking, isRecording, speak, targetLanguage]);
 
-  // When recording stops, ensure any remaining translated text is spoken
+    // Once recording has stopped no more text will complete the sentence
+    if (!isRecording) {
+      enqueueRemainder();
+      return;
+    }
+
+    // Wait 700ms for more content or a punctuation mark before speaking an
+    // unfinished sentence
+    const timer = setTimeout(enqueueRemainder, 700);
+    return () => clearTimeout(timer);
+  }, [
+    translatedText,
+    translatedLanguages,
+    translatedCount,
+    segments.length,
+    isRecording,
+    enqueueSpeech,
+  ]);
+
   const handleRecordingToggle = useCallback(async () => {
     if (isRecording) {
+      // Remaining text is spoken by the speech effect once isRecording is false
       await stopRecording();
       setIsRecording(false);
-      // On stop, clear the debounce and immediately speak any remaining text
-      if (ttsDebounceTimerRef.current) {
-        clearTimeout(ttsDebounceTimerRef.current);
-      }
-      const remainingText = translatedText
-        .substring(lastSpokenTranslatedTextRef.current.length)
-        .trim();
-      if (remainingText && !isSpeaking) {
-        speak(remainingText, targetLanguage);
-        lastSpokenTranslatedTextRef.current = translatedText;
-      }
+      setActiveSpeaker(null);
     } else {
-      setSourceText("");
-      setTranslatedText("");
-      lastSpokenTranslatedTextRef.current = ""; // Reset spoken text for new recording
-      if (ttsDebounceTimerRef.current) {
-        clearTimeout(ttsDebounceTimerRef.current);
-      }
+      setSegments([]);
+      resetTranslations();
+      clearQuestions();
+      setHighlight(null);
+      // Conversations are not saved as transcripts
+      sessionIdRef.current = isConversation ? null : crypto.randomUUID();
+      clearSpeech();
+      enqueuedRef.current.length = 0; // Reset spoken text for new recording
       const success = await startRecording();
       if (success) {
         setIsRecording(true);
+        // Device labels are only exposed once microphone access was granted
+        refreshInputDevices();
       }
     }
   }, [
     isRecording,
+    isConversation,
     stopRecording,
-    translatedText,
-    lastSpokenTranslatedTextRef,
-    isSpeaking,
-    speak,
-    targetLanguage,
     startRecording,
+    resetTranslations,
+    clearQuestions,
+    clearSpeech,
+    refreshInputDevices,
   ]);
 
+  // Stop capturing once the engine gave up reconnecting, so recording never
+  // looks "on" while the audio goes nowhere
+  useEffect(() => {
+    if (connectionState === "failed" && isRecording) {
+      handleRecordingToggle();
+    }
+  }, [connectionState, isRecording, handleRecordingToggle]);
+
+  // Tap-to-talk: the participant's own language is the only source language
+  // of the turn, so nothing is left to detection
+  const handleTalk = async (speaker: Speaker) => {
+    if (isRecording) {
+      await handleRecordingToggle();
+      return;
+    }
+    const [own, other] =
+      speaker === "a" ? [languageA, languageB] : [languageB, languageA];
+    setActiveSpeaker(speaker);
+    const success = await startRecording({
+      sourceLanguage: own,
+      targetLanguages: [other],
+    });
+    if (success) {
+      setIsRecording(true);
+      refreshInputDevices();
+    } else {
+      setActiveSpeaker(null);
+    }
+  };
+
   const hasApiKeys = () => {
-    const gladiaKey = localStorage.getItem("gladia_api_key");
-    const azureKey = localStorage.getItem("azure_api_key");
-    const elevenlabsKey = localStorage.getItem("elevenlabs_api_key");
-    return gladiaKey && azureKey && elevenlabsKey;
+    const azureKey = getSecret("azure_api_key");
+    const translationConfigured = realtimeTranslationEnabled
+      ? sttProvider.supportsTranslation
+      : translationProviderId === "llm"
+      ? isLlmConfigured()
+      : !!azureKey;
+    // Speech falls back to the browser voices, so no TTS key is required
+    return sttProvider.isConfigured() && translationConfigured;
   };
 
+  // Shared by the translation and conversation layouts
+  const recordingControls = (
+    <>
+      {/* Recording Controls */}
+      <div className="flex flex-wrap items-center gap-4 mb-6">
+        <Button
+          onClick={handleRecordingToggle}
+          disabled={!hasApiKeys() || isFinishing}
+          className={`flex items-center space-x-2 px-6 py-3 ${
+            isRecording
+              ? "bg-red-600 hover:bg-red-700"
+              : "bg-blue-600 hover:bg-blue-700"
+          }`}
+        >
+          {isFinishing ? (
+            <>
+              <Loader2 className="w-5 h-5 animate-spin" />
+              <span>Finishing...</span>
+            </>
+          ) : isRecording ? (
+            <>
+              <MicOff className="w-5 h-5" />
+              <span>Stop Recording</span>
+            </>
+          ) : (
+            <>
+              <Mic className="w-5 h-5" />
+              <span>Start Recording</span>
+            </>
+          )}
+        </Button>
+
+        <CaptureSourceSelector
+          value={captureSource}
+          onChange={handleCaptureSourceChange}
+          disabled={isRecording}
+        />
+
+        {captureSource !== "tab" && (
+          <MicrophoneSelector
+            devices={inputDevices}
+            value={audioInput.deviceId}
+            onChange={handleInputDeviceChange}
+            className="w-44"
+          />
+        )}
+
+        <div className="flex items-center space-x-2 text-sm text-slate-600">
+          <div
+            className={`w-2 h-2 rounded-full ${
+              isFinishing
+                ? "bg-amber-500 animate-pulse"
+                : CONNECTION_STATUS[connectionState].dotClassName
+            }`}
+          />
+          <span>
+            {isFinishing
+              ? "Finishing transcript..."
+              : CONNECTION_STATUS[connectionState].label}
+          </span>
+        </div>
+      </div>
+
+      {inputNotice && (
+        <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm text-amber-700">{inputNotice}</p>
+        </div>
+      )}
+
+      {sttLimitations.length > 0 && (
+        <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+          <p className="text-sm font-medium text-amber-800">
+            {sttProvider.name} limitations
+          </p>
+          <ul className="mt-1 list-disc pl-5 text-sm text-amber-700">
+            {sttLimitations.map((limitation) => (
+              <li key={limitation}>{limitation}</li>
+            ))}
+          </ul>
+        </div>
+      )}
+
+      {captureSource === "mixed" && (
+        <CaptureGainControls
+          gains={captureGains}
+          onChange={setCaptureGains}
+        />
+      )}
+
+      {/* Audio Visualizer */}
+      {isRecording && (
+        <AudioVisualizer
+          getLevels={getAudioLevels}
+          isActive={isRecording}
+        />
+      )}
+    </>
+  );
+
   return (
     <div className="min-h-screen bg-gradient-to-br from-slate-50 to-blue-50">
       {/* Header */}
@@ -196,22 +625,52 @@ const Index = () => {
                 Real-Time Speech Translator
               </h1>
             </div>
-            <Button
-              variant="outline"
-              size="sm"
-              onClick={() => setIsSettingsOpen(true)}
-              className="flex items-center space-x-2"
-            >
-              <Settings className="w-4 h-4" />
-              <span>Settings</span>
-            </Button>
+            <div className="flex items-center space-x-4">
+              <Tabs value={mode} onValueChange={handleModeChange}>
+                <TabsList>
+                  <TabsTrigger value="translate" disabled={isRecording}>
+                    Translate
+                  </TabsTrigger>
+                  <TabsTrigger value="conversation" disabled={isRecording}>
+                    Conversation
+                  </TabsTrigger>
+                </TabsList>
+              </Tabs>
+              <Button
+                variant="outline"
+                size="sm"
+                onClick={() => setIsSettingsOpen(true)}
+                className="flex items-center space-x-2"
+              >
+                <Settings className="w-4 h-4" />
+                <span>Settings</span>
+              </Button>
+            </div>
           </div>
         </div>
       </header>
 
       {/* Main Content */}
       <main className="max-w-7xl mx-auto px-4 sm:px-6 lg:px-8 py-8">
-        {!hasApiKeys() && (
+        {areKeysLocked && (
+          <Card className="p-6 mb-8 bg-amber-50 border-amber-200">
+            <div className="flex items-start space-x-3">
+              <Lock className="w-5 h-5 mt-0.5 text-amber-600" />
+              <div className="flex-1 max-w-md">
+                <h3 className="text-sm font-medium text-amber-800">
+                  API Keys Locked
+                </h3>
+                <p className="text-sm text-amber-700 mt-1 mb-3">
+                  Enter your passphrase to decrypt the API keys for this
+                  session.
+                </p>
+                <KeyVaultUnlock />
+              </div>
+            </div>
+          </Card>
+        )}
+
+        {!hasApiKeys() && !areKeysLocked && (
           <Card className="p-6 mb-8 bg-amber-50 border-amber-200">
             <div className="flex items-center space-x-3">
               <Settings className="w-5 h-5 text-amber-600" />
@@ -228,138 +687,327 @@ const Index = () => {
           </Card>
         )}
 
-        <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
-          {/* Source Language Section */}
-          <div className="space-y-6">
-            <Card className="p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-semibold text-slate-900">
-                  Source Language
-                </h2>
+        {isConversation ? (
+          <Card className="p-6">
+            <div className="flex flex-wrap items-center justify-between gap-4 mb-4">
+              <h2 className="text-lg font-semibold text-slate-900">
+                Conversation
+              </h2>
+              <div className="flex flex-wrap items-center gap-2">
                 <LanguageSelector
-                  value={sourceLanguage}
-                  onChange={setSourceLanguage}
-                  label="From"
-                  allowAutoDetect={true}
+                  value={languageA}
+                  onChange={setLanguageA}
+                  label="Person A"
                 />
-              </div>
-
-              {/* Recording Controls */}
-              <div className="flex items-center space-x-4 mb-6">
                 <Button
-                  onClick={handleRecordingToggle}
-                  disabled={!hasApiKeys()}
-                  className={`flex items-center space-x-2 px-6 py-3 ${
-                    isRecording
-                      ? "bg-red-600 hover:bg-red-700"
-                      : "bg-blue-600 hover:bg-blue-700"
-                  }`}
+                  variant="ghost"
+                  size="sm"
+                  className="h-8 w-8 p-0"
+                  onClick={swapConversationLanguages}
+                  disabled={isRecording}
+                  title="Swap languages"
                 >
-                  {isRecording ? (
-                    <>
-                      <MicOff className="w-5 h-5" />
-                      <span>Stop Recording</span>
-                    </>
-                  ) : (
-                    <>
-                      <Mic className="w-5 h-5" />
-                      <span>Start Recording</span>
-                    </>
-                  )}
+                  <ArrowLeftRight className="w-4 h-4" />
                 </Button>
+                <LanguageSelector
+                  value={languageB}
+                  onChange={setLanguageB}
+                  label="Person B"
+                />
+              </div>
+            </div>
 
-                <div className="flex items-center space-x-2 text-sm text-slate-600">
-                  <div
-                    className={`w-2 h-2 rounded-full ${
-                      isConnected ? "bg-green-500" : "bg-red-500"
-                    }`}
-                  />
-                  <span>{isConnected ? "Connected" : "Disconnected"}</span>
-                </div>
+            {recordingControls}
+
+            {!sttProvider.supportsAutoDetect && (
+              <div className="mb-6 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-sm text-amber-700">
+                  {sttProvider.name} cannot detect who is speaking; every
+                  utterance is treated as {getLanguageName(languageA)}.
+                </p>
               </div>
+            )}
 
-              {/* Audio Visualizer */}
-              {isRecording && (
-                <AudioVisualizer
-                  audioLevel={audioLevel}
-                  isActive={isRecording}
-                />
-              )}
-
-              {/* Source Transcription */}
-              <TranscriptionDisplay
-                text={sourceText}
-                language={sourceLanguage}
-                isProcessing={isRecording}
-                title="Live Transcription"
-              />
-
-              {/* Error Display */}
-              {audioError && (
-                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                  <p className="text-sm text-red-700">{audioError}</p>
+            <SpeechQueueControls
+              currentText={currentSpeechText}
+              isPreparing={isSpeechPreparing}
+              firstByteMs={speechFirstByteMs}
+              queueLength={speechQueueLength}
+              isPaused={isSpeechPaused}
+              onPause={pauseSpeech}
+              onResume={resumeSpeech}
+              onSkip={skipSpeech}
+              onClear={clearSpeech}
+            />
+
+            <div className="flex items-center justify-between mb-3">
+              <h3 className="text-sm font-medium text-slate-700">
+                {getLanguageName(languageA)} ↔ {getLanguageName(languageB)}
+              </h3>
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-8 px-2 text-slate-500"
+                onClick={resetConversation}
+                disabled={conversationTurns.length === 0}
+              >
+                <Trash2 className="w-4 h-4 mr-1" />
+                Clear
+              </Button>
+            </div>
+            <ConversationView
+              turns={conversationTurns}
+              tentativeText={isRecording ? partialTranscription : ""}
+              isListening={isRecording}
+            />
+
+            {[audioError, translationError, ttsError]
+              .filter(Boolean)
+              .map((message) => (
+                <div
+                  key={message}
+                  className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg"
+                >
+                  <p className="text-sm text-red-700">{message}</p>
                 </div>
-              )}
-            </Card>
-          </div>
+              ))}
 
-          {/* Target Language Section */}
-          <div className="space-y-6">
-            <Card className="p-6">
-              <div className="flex items-center justify-between mb-4">
-                <h2 className="text-lg font-semibold text-slate-900">
-                  Target Language
-                </h2>
-                <LanguageSelector
-                  value={targetLanguage}
-                  onChange={setTargetLanguage}
-                  label="To"
+            {ttsFallbackReason && (
+              <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                <p className="text-sm text-amber-700">
+                  Speaking with browser voices: {ttsFallbackReason}
+                </p>
+              </div>
+            )}
+          </Card>
+        ) : (
+          <div className="flex flex-col xl:flex-row gap-8">
+            {/* Several targets need the full width for their columns */}
+            <div
+              className={`flex-1 min-w-0 w-full grid grid-cols-1 gap-8 ${
+                targetLanguages.length === 1 ? "lg:grid-cols-2" : ""
+              }`}
+            >
+              {/* Source Language Section */}
+              <div className="space-y-6">
+                <Card className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-slate-900">
+                      Source Language
+                    </h2>
+                    <LanguageSelector
+                      value={sourceLanguage}
+                      onChange={setSourceLanguage}
+                      label="From"
+                      allowAutoDetect={sttProvider.supportsAutoDetect}
+                    />
+                  </div>
+
+                  {recordingControls}
+
+                  {/* Source Transcription */}
+                  <TranscriptionDisplay
+                    text={sourceText}
+                    segments={segments}
+                    highlight={highlight}
+                    tentativeText={isRecording ? partialTranscription : ""}
+                    language={sourceLanguage}
+                    isProcessing={isRecording}
+                    title="Live Transcription"
+                  />
+
+                  {/* Error Display */}
+                  {audioError && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-sm text-red-700">{audioError}</p>
+                    </div>
+                  )}
+                </Card>
+
+                <TranscriptChat
+                  segments={segments}
+                  questions={questions}
+                  isAnswering={isAnswering}
+                  isAvailable={llmConfigured}
+                  languages={targetLanguages}
+                  onAsk={askQuestion}
+                  onClear={clearQuestions}
+                  onJumpToSegment={(segmentId) => setHighlight({ segmentId })}
                 />
               </div>
 
-              <div className="flex items-center space-x-4 mb-6">
-                <div className="flex items-center space-x-2 text-sm text-slate-600">
+              {/* Target Language Section */}
+              <div className="space-y-6">
+                <Card className="p-6">
+                  <div className="flex items-center justify-between mb-4">
+                    <h2 className="text-lg font-semibold text-slate-900">
+                      {targetLanguages.length === 1
+                        ? "Target Language"
+                        : "Target Languages"}
+                    </h2>
+                    <TargetLanguagesSelector
+                      value={targetLanguages}
+                      onChange={handleTargetLanguagesChange}
+                      label="To"
+                      max={MAX_TARGET_LANGUAGES}
+                      // Realtime translation targets are fixed when the session starts
+                      disabled={isRecording && realtimeTranslationEnabled}
+                    />
+                  </div>
+
+                  <div className="flex flex-wrap items-center gap-4 mb-6">
+                    <div className="flex items-center space-x-2">
+                      <span className="text-sm font-medium text-slate-600">
+                        Speak:
+                      </span>
+                      <Select
+                        value={spokenLanguage ?? NO_SPEECH_VALUE}
+                        onValueChange={(value) =>
+                          setSpokenLanguage(value === NO_SPEECH_VALUE ? null : value)
+                        }
+                      >
+                        <SelectTrigger className="w-40">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value={NO_SPEECH_VALUE}>Nothing</SelectItem>
+                          {targetLanguages.map((language) => (
+                            <SelectItem key={language} value={language}>
+                              {getLanguageName(language)}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+
+                    <div className="flex items-center space-x-2 text-sm text-slate-600">
+                      <div
+                        className={`w-2 h-2 rounded-full ${
+                          isTranslating
+                            ? "bg-blue-500 animate-pulse"
+                            : "bg-slate-300"
+                        }`}
+                      />
+                      <span>{isTranslating ? "Translating..." : "Ready"}</span>
+                    </div>
+                  </div>
+
+                  {/* Speech Playback Queue */}
+                  <SpeechQueueControls
+                    currentText={currentSpeechText}
+                    isPreparing={isSpeechPreparing}
+                    firstByteMs={speechFirstByteMs}
+                    queueLength={speechQueueLength}
+                    isPaused={isSpeechPaused}
+                    onPause={pauseSpeech}
+                    onResume={resumeSpeech}
+                    onSkip={skipSpeech}
+                    onClear={clearSpeech}
+                  />
+
+                  {/* Translated Text, one column per target */}
                   <div
-                    className={`w-2 h-2 rounded-full ${
-                      isTranslating
-                        ? "bg-blue-500 animate-pulse"
-                        : "bg-slate-300"
+                    className={`grid gap-4 ${
+                      TRANSLATION_COLUMNS[targetLanguages.length]
                     }`}
-                  />
-                  <span>{isTranslating ? "Translating..." : "Ready"}</span>
-                </div>
-              </div>
+                  >
+                    {targetLanguages.map((language) => (
+                      <TranscriptionDisplay
+                        key={language}
+                        text={translations[language]?.translatedText ?? ""}
+                        tentativeText={translations[language]?.streamingText}
+                        language={language}
+                        isProcessing={isTranslating}
+                        title={
+                          targetLanguages.length === 1
+                            ? "Translation"
+                            : getLanguageName(language)
+                        }
+                      />
+                    ))}
+                  </div>
 
-              {/* Translated Text */}
-              <TranscriptionDisplay
-                text={translatedText}
-                language={targetLanguage}
-                isProcessing={isTranslating}
-                title="Translation"
-              />
-
-              {/* Translation Error */}
-              {translationError && (
-                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                  <p className="text-sm text-red-700">{translationError}</p>
-                </div>
-              )}
+                  {targetLanguages
+                    .filter((language) => translations[language]?.failedCount)
+                    .map((language) => (
+                      <div
+                        key={language}
+                        className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg"
+                      >
+                        <p className="text-sm text-amber-700">
+                          {translations[language].failedCount} segment(s) could
+                          not be translated into {getLanguageName(language)} and
+                          are missing from the translation
+                        </p>
+                      </div>
+                    ))}
 
-              {/* TTS Error */}
-              {ttsError && (
-                <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
-                  <p className="text-sm text-red-700">{ttsError}</p>
-                </div>
-              )}
-            </Card>
+                  {/* Translation Error */}
+                  {translationError && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-sm text-red-700">{translationError}</p>
+                    </div>
+                  )}
+
+                  {/* TTS Error */}
+                  {ttsError && (
+                    <div className="mt-4 p-3 bg-red-50 border border-red-200 rounded-lg">
+                      <p className="text-sm text-red-700">{ttsError}</p>
+                    </div>
+                  )}
+
+                  {ttsFallbackReason && (
+                    <div className="mt-4 p-3 bg-amber-50 border border-amber-200 rounded-lg">
+                      <p className="text-sm text-amber-700">
+                        Speaking with browser voices: {ttsFallbackReason}
+                      </p>
+                    </div>
+                  )}
+                </Card>
+              </div>
+            </div>
+
+            <MeetingSummaryPanel
+              summary={meetingSummary}
+              isSummarizing={isSummarizing}
+              error={summaryError}
+              isAvailable={llmConfigured}
+              interval={summaryInterval}
+              onIntervalChange={handleSummaryIntervalChange}
+              isOpen={isSummaryOpen}
+              onOpenChange={handleSummaryOpenChange}
+            />
           </div>
-        </div>
+        )}
       </main>
 
+      {/* Face-to-face layout for a phone between two people */}
+      {isConversation && isMobile && (
+        <FaceToFaceView
+          languageA={languageA}
+          languageB={languageB}
+          onLanguageAChange={setLanguageA}
+          onLanguageBChange={setLanguageB}
+          turns={conversationTurns}
+          activeSpeaker={activeSpeaker}
+          tentativeText={partialTranscription}
+          isFinishing={isFinishing}
+          disabled={!hasApiKeys()}
+          onTalk={handleTalk}
+          onOpenSettings={() => setIsSettingsOpen(true)}
+          onExit={() => handleModeChange("translate")}
+          error={audioError || translationError || ttsError}
+        />
+      )}
+
       {/* Settings Modal */}
       <SettingsModal
         isOpen={isSettingsOpen}
-        onClose={() => setIsSettingsOpen(false)}
+        onClose={() => {
+          setIsSettingsOpen(false);
+          setAudioInput(loadAudioInputSettings());
+        }}
+        inputDevices={inputDevices}
       />
     </div>
   );